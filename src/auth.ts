@@ -0,0 +1,83 @@
+/**
+ * Authentication for administrative operations (purge, admin endpoints)
+ *
+ * Two kinds of credentials are accepted as "Authorization: Bearer <token>":
+ *   - ADMIN_SECRET : worker-wide secret, authorizes every domain
+ *   - Site token   : per-site token, authorizes only domains whose KV
+ *                    DomainRecord carries a matching purge_token_hash
+ *
+ * SECURITY: Tokens are compared as SHA-256 digests with a constant-time
+ * comparison, so neither length nor content leaks through timing.
+ * Site tokens are never stored in plain text - only their hex digest.
+ */
+
+import type { Env } from './types';
+import { getDomainRecords } from './validation';
+
+/**
+ * Extract bearer token from Authorization header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * SHA-256 digest of a string as lowercase hex
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Constant-time string comparison
+ *
+ * Both inputs are hashed first so the comparison always runs over
+ * equal-length buffers, regardless of the inputs' lengths.
+ */
+export async function secureCompare(a: string, b: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [hashA, hashB] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(a)),
+    crypto.subtle.digest('SHA-256', encoder.encode(b)),
+  ]);
+  return crypto.subtle.timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Check if a token may administer (e.g. purge) a given origin domain
+ *
+ * The admin secret authorizes every domain. Otherwise the token must match
+ * the purge_token_hash of at least one active site that registered the domain.
+ */
+export async function isAuthorizedForDomain(
+  token: string,
+  domain: string,
+  env: Env
+): Promise<boolean> {
+  if (env.ADMIN_SECRET && await secureCompare(token, env.ADMIN_SECRET)) {
+    return true;
+  }
+
+  if (!env.ORIGINS_KV) {
+    return false;
+  }
+
+  const records = await getDomainRecords(domain, env.ORIGINS_KV);
+  const tokenHash = await sha256Hex(token);
+
+  for (const record of records) {
+    if (record.status !== 'active' || !record.purge_token_hash) continue;
+    if (await secureCompare(tokenHash, record.purge_token_hash.toLowerCase())) {
+      return true;
+    }
+  }
+
+  return false;
+}
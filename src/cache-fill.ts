@@ -0,0 +1,390 @@
+/**
+ * Background cache fill and revalidation
+ *
+ * Fetches objects from origin and stores them in R2 without serving them
+ * to anyone. Used when the client response comes from somewhere else:
+ *   - Ranged origin fetch for a video seek on cache miss (fill)
+ *   - Stale cached object served while checking the origin (revalidation)
+ *
+ * Applies the same checks as the main miss path: block detection,
+ * HTTP status, content sniffing, media type, the domain's size limit
+ * (header + streaming limit) and its image dimension limits.
+ * HLS and DASH manifests are rewritten to CDN paths and SVGs sanitized, as on
+ * the main miss path.
+ * Failures are logged and swallowed - a failed fill only means another miss.
+ *
+ * Fills after a ranged miss run once per object at a time (see
+ * fillCacheInBackground) and count against the domain's miss budget.
+ * Fills and revalidations respect the origin's circuit breaker and report
+ * their outcome to it, like any other origin fetch (see circuit.ts).
+ */
+
+import type { Env, ParsedUrl, DomainConfig } from './types';
+import { isMediaContentType, isManifestContentType, getEffectiveContentType } from './validation';
+import { fetchMediaFromOrigin, validateResponseSize, createSizeLimitedStream } from './origin';
+import type { FetchResult } from './origin';
+import { sniffContent } from './sniff';
+import { isSvgContentType, sanitizeSvgResponse } from './svg';
+import { hasDimensionHeader, readImageDimensions, getDimensionLimitError } from './dimensions';
+import type { ImageDimensions } from './dimensions';
+import { storeInCacheStream, deleteFromCache, deleteVariantsFromCache } from './cache';
+import { rewriteManifestResponse } from './manifest';
+import { acquireFillLease, releaseFillLease, trackFillProgress } from './coalesce';
+import { checkRateLimit } from './rate-limit';
+import { checkCircuit, recordOriginOutcome, getFetchErrorReason, getResponseOutcome } from './circuit';
+import {
+  getFreshnessFromOrigin,
+  getObjectFreshness,
+  setFreshnessMarker,
+  recordRevalidation,
+} from './freshness';
+
+/**
+ * How long to hold off further revalidations while one is in flight,
+ * or after one failed (seconds)
+ */
+const REVALIDATION_BACKOFF_TTL = 60;
+
+/**
+ * Parse the complete length from a Content-Range header
+ *
+ * @example "bytes 0-99/1000" -> 1000, "bytes 0-99/*" -> null
+ */
+export function parseContentRangeTotal(contentRange: string | null): number | null {
+  if (!contentRange) return null;
+
+  const match = contentRange.match(/^bytes\s+\d+-\d+\/(\d+)$/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Fetch from origin and report the outcome to the origin's circuit breaker
+ *
+ * Fetch errors are rethrown; those that say nothing about origin health
+ * (see getFetchErrorReason) are not recorded.
+ */
+async function fetchAndRecordOutcome(
+  env: Env,
+  parsed: ParsedUrl,
+  clientRequest: Request,
+  config: DomainConfig,
+  validateRedirect?: (finalUrl: string) => Promise<boolean>,
+  extraHeaders?: Record<string, string>
+): Promise<FetchResult> {
+  let result: FetchResult;
+  try {
+    result = await fetchMediaFromOrigin(parsed.sourceUrl, config, clientRequest, undefined, validateRedirect, extraHeaders);
+  } catch (error) {
+    const failureReason = getFetchErrorReason(error);
+    if (failureReason) {
+      await recordOriginOutcome(env, parsed.domain, config.fetchTimeout, { success: false, reason: failureReason });
+    }
+    throw error;
+  }
+
+  await recordOriginOutcome(env, parsed.domain, config.fetchTimeout, getResponseOutcome(result.response, result.blockReason));
+  return result;
+}
+
+/**
+ * Validate an origin response and store it in R2
+ *
+ * Consumes (or cancels) the response body.
+ *
+ * @param trackBody - Wraps the body before it is read (see trackFillProgress)
+ * @returns true if the object was stored
+ */
+async function storeOriginResponse(
+  env: Env,
+  parsed: ParsedUrl,
+  response: Response,
+  config: DomainConfig,
+  redirects: string[],
+  blockReason?: string,
+  trackBody?: (body: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>
+): Promise<boolean> {
+  const declaredType = getEffectiveContentType(response.headers.get('Content-Type') || '', parsed.path);
+  const originUrl = response.url || parsed.sourceUrl;
+  if (trackBody && response.body) {
+    response = new Response(trackBody(response.body), response);
+  }
+  const sizeValidation = validateResponseSize(response, config.maxFileSize);
+
+  // Verify the body's magic bytes against the declared type (see sniff.ts)
+  const sniffed = !blockReason && response.status === 200 && response.body
+    ? await sniffContent(response.body, declaredType)
+    : null;
+  if (sniffed) {
+    response = new Response(sniffed.body, response);
+  }
+  const contentType = sniffed ? sniffed.contentType : declaredType;
+
+  if (blockReason || !response.ok || !contentType || !isMediaContentType(contentType) || !sizeValidation.valid || !response.body) {
+    console.log(
+      `[Cache fill] Skipped ${parsed.cacheKey}: ` +
+      (blockReason || sniffed?.reason || (response.ok ? sizeValidation.reason || contentType : `HTTP ${response.status}`))
+    );
+    await response.body?.cancel();
+    return false;
+  }
+
+  const freshness = getFreshnessFromOrigin(config, response);
+
+  if (isManifestContentType(contentType) && response.status === 200) {
+    const manifest = await rewriteManifestResponse(
+      env, response, contentType, freshness, originUrl, { domain: parsed.domain, config }
+    );
+    await storeInCacheStream(
+      env,
+      parsed.cacheKey,
+      new Response(manifest.body).body!,
+      contentType,
+      manifest.body.byteLength,
+      parsed.sourceUrl,
+      parsed.domain,
+      manifest.freshness,
+      redirects,
+      sniffed?.sniffedType
+    );
+
+    console.log(`[Cache fill] Stored rewritten manifest ${parsed.cacheKey}`);
+    return true;
+  }
+
+  // SVGs are only cached sanitized (see svg.ts)
+  if (isSvgContentType(contentType)) {
+    let svg: Uint8Array;
+    try {
+      if (response.status !== 200) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      svg = await sanitizeSvgResponse(response);
+    } catch (error) {
+      console.log(`[Cache fill] Skipped ${parsed.cacheKey}: SVG rejected (${error instanceof Error ? error.message : error})`);
+      await response.body?.cancel().catch(() => {});
+      return false;
+    }
+
+    await storeInCacheStream(
+      env,
+      parsed.cacheKey,
+      new Response(svg).body!,
+      contentType,
+      svg.byteLength,
+      parsed.sourceUrl,
+      parsed.domain,
+      freshness,
+      redirects,
+      sniffed?.sniffedType
+    );
+
+    console.log(`[Cache fill] Stored sanitized SVG ${parsed.cacheKey}`);
+    return true;
+  }
+
+  // Reject decompression bombs before they are cached (see dimensions.ts)
+  let body = response.body;
+  let dimensions: ImageDimensions | null = null;
+  if (response.status === 200 && hasDimensionHeader(contentType)) {
+    ({ body, dimensions } = await readImageDimensions(body));
+    const limitError = dimensions && getDimensionLimitError(dimensions, config);
+    if (limitError) {
+      console.log(`[Cache fill] Skipped ${parsed.cacheKey}: ${limitError}`);
+      await body.cancel();
+      return false;
+    }
+  }
+
+  const { stream } = createSizeLimitedStream(body, config.maxFileSize);
+
+  await storeInCacheStream(
+    env,
+    parsed.cacheKey,
+    stream,
+    contentType,
+    sizeValidation.size,
+    parsed.sourceUrl,
+    parsed.domain,
+    freshness,
+    redirects,
+    sniffed?.sniffedType,
+    dimensions
+  );
+
+  console.log(`[Cache fill] Stored ${parsed.cacheKey}`);
+  return true;
+}
+
+/**
+ * Fetch the full object from origin and store it in R2
+ *
+ * @param env - Environment bindings
+ * @param parsed - Parsed request URL
+ * @param clientRequest - Original client request (for safe header forwarding)
+ * @param config - The domain's effective config (see resolveDomainConfig)
+ * @param validateRedirect - Redirect allowlist check (same as the main fetch)
+ * @param trackBody - Wraps the origin body before it is read (see trackFillProgress)
+ * @returns true if the object was stored
+ */
+export async function fillCacheFromOrigin(
+  env: Env,
+  parsed: ParsedUrl,
+  clientRequest: Request,
+  config: DomainConfig,
+  validateRedirect?: (finalUrl: string) => Promise<boolean>,
+  trackBody?: (body: ReadableStream<Uint8Array>) => ReadableStream<Uint8Array>
+): Promise<boolean> {
+  try {
+    const { response, redirects, blockReason } = await fetchAndRecordOutcome(
+      env, parsed, clientRequest, config, validateRedirect
+    );
+
+    return await storeOriginResponse(env, parsed, response, config, redirects, blockReason, trackBody);
+  } catch (error) {
+    console.error(`[Cache fill] Failed for ${parsed.cacheKey}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Fill the cache after a ranged miss, unless a fill is already running
+ *
+ * Video players fire many ranged requests for the same object at once; each
+ * would otherwise start its own full download. The fill takes the object's
+ * miss coalescing lease without waiting (full misses arriving meanwhile wait
+ * for it like for any leader) and skips if another request holds it. A fill
+ * is an extra origin fetch, so it counts against the miss budget.
+ *
+ * @param clientIp - Client IP for the miss budget, or null if unknown
+ */
+export async function fillCacheInBackground(
+  env: Env,
+  ctx: ExecutionContext,
+  parsed: ParsedUrl,
+  clientRequest: Request,
+  config: DomainConfig,
+  clientIp: string | null,
+  validateRedirect?: (finalUrl: string) => Promise<boolean>
+): Promise<void> {
+  const claim = await acquireFillLease(env, parsed.cacheKey, config.fetchTimeout);
+  if (claim.role === 'follower') {
+    console.log(`[Cache fill] Skipped ${parsed.cacheKey}: already being fetched`);
+    return;
+  }
+  const lease = claim.role === 'leader' ? claim.lease : null;
+
+  const missLimit = await checkRateLimit(env, config.rateLimits.misses, 'misses', parsed.domain, clientIp);
+  if (!missLimit.allowed) {
+    console.log(`[Cache fill] Skipped ${parsed.cacheKey}: ${missLimit.scope} miss budget exhausted`);
+    releaseFillLease(env, ctx, lease);
+    return;
+  }
+
+  const circuit = await checkCircuit(env, parsed.domain, config.fetchTimeout);
+  if (!circuit.allowed) {
+    console.log(`[Cache fill] Skipped ${parsed.cacheKey}: origin circuit ${circuit.state}`);
+    releaseFillLease(env, ctx, lease);
+    return;
+  }
+
+  // Full misses waiting on the lease keep waiting while the body streams
+  const stored = fillCacheFromOrigin(
+    env, parsed, clientRequest, config, validateRedirect,
+    lease ? body => trackFillProgress(env, ctx, lease, body) : undefined
+  );
+  releaseFillLease(env, ctx, lease, stored);
+  await stored;
+}
+
+export type RevalidationResult = 'unchanged' | 'updated' | 'removed' | 'failed';
+
+/**
+ * Revalidate a stale cached object against the origin
+ *
+ * Sends If-None-Match / If-Modified-Since built from the origin validators
+ * stored at cache time:
+ *   - 304, or 200 with the same validators -> unchanged, marked fresh for its TTL
+ *   - 200 with different content           -> R2 object rewritten
+ *   - 404 / 410                            -> origin removed it, evicted from R2
+ *   - anything else (timeout, 5xx, block)  -> kept as-is, retried after a back-off
+ *
+ * @param env - Environment bindings
+ * @param parsed - Parsed request URL
+ * @param object - The stale cached object
+ * @param clientRequest - Original client request (for safe header forwarding)
+ * @param config - The domain's effective config (see resolveDomainConfig)
+ * @param validateRedirect - Redirect allowlist check (same as the main fetch)
+ */
+export async function revalidateCachedObject(
+  env: Env,
+  parsed: ParsedUrl,
+  object: R2Object,
+  clientRequest: Request,
+  config: DomainConfig,
+  validateRedirect?: (finalUrl: string) => Promise<boolean>
+): Promise<RevalidationResult> {
+  const stored = getObjectFreshness(object);
+
+  // Hold off concurrent revalidations of the same object in this location -
+  // never longer than its own TTL, so short-lived objects (live playlists)
+  // are not frozen by the marker after an update
+  const backoffTtl = Math.min(REVALIDATION_BACKOFF_TTL, stored.ttl ?? REVALIDATION_BACKOFF_TTL);
+  await setFreshnessMarker(parsed.cacheKey, backoffTtl);
+
+  // Origin failing: keep serving the cached copy, retry after the back-off
+  const circuit = await checkCircuit(env, parsed.domain, config.fetchTimeout);
+  if (!circuit.allowed) {
+    console.log(`[Revalidate] ${parsed.cacheKey}: origin circuit ${circuit.state} - keeping cached copy`);
+    return 'failed';
+  }
+
+  const conditionalHeaders: Record<string, string> = {};
+  if (stored.etag) conditionalHeaders['If-None-Match'] = stored.etag;
+  if (stored.lastModified) conditionalHeaders['If-Modified-Since'] = stored.lastModified;
+
+  try {
+    const { response, redirects, blocked, blockReason } = await fetchAndRecordOutcome(
+      env, parsed, clientRequest, config, validateRedirect, conditionalHeaders
+    );
+
+    if (response.status === 304) {
+      await recordRevalidation(env, parsed.cacheKey, stored.ttl ?? REVALIDATION_BACKOFF_TTL);
+      console.log(`[Revalidate] ${parsed.cacheKey}: not modified`);
+      return 'unchanged';
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      await response.body?.cancel();
+      await Promise.all([
+        deleteFromCache(env, parsed.cacheKey),
+        deleteVariantsFromCache(env, parsed.cacheKey),
+      ]);
+      console.log(`[Revalidate] ${parsed.cacheKey}: removed at origin (HTTP ${response.status})`);
+      return 'removed';
+    }
+
+    if (blocked || !response.ok) {
+      await response.body?.cancel();
+      console.log(`[Revalidate] ${parsed.cacheKey}: ${blockReason || `HTTP ${response.status}`} - keeping cached copy`);
+      return 'failed';
+    }
+
+    // Origin ignored the conditional request - compare validators ourselves
+    const current = getFreshnessFromOrigin(config, response);
+    const sameEtag = !!stored.etag && current.etag === stored.etag;
+    const sameLastModified = !stored.etag && !!stored.lastModified && current.lastModified === stored.lastModified;
+    if (sameEtag || sameLastModified) {
+      await response.body?.cancel();
+      await recordRevalidation(env, parsed.cacheKey, stored.ttl ?? REVALIDATION_BACKOFF_TTL);
+      console.log(`[Revalidate] ${parsed.cacheKey}: unchanged (validators match)`);
+      return 'unchanged';
+    }
+
+    const updated = await storeOriginResponse(env, parsed, response, config, redirects);
+    console.log(`[Revalidate] ${parsed.cacheKey}: ${updated ? 'updated' : 'update rejected'}`);
+    return updated ? 'updated' : 'failed';
+  } catch (error) {
+    console.error(`[Revalidate] Failed for ${parsed.cacheKey}:`, error);
+    return 'failed';
+  }
+}
@@ -4,7 +4,20 @@
 
 import type { Env } from './types';
 import type { RangeInfo } from './range';
+import { buildMultipartByterangesLayout } from './range';
+import { evaluatePreconditions } from './conditional';
+import type { FreshnessInfo } from './freshness';
+import { getCacheControlHeader, getObjectFreshness, toFreshnessMetadata } from './freshness';
 import { getCORSHeaders } from './utils';
+import { getVariantPrefix } from './validation';
+import type { ImageVariant } from './transform';
+import type { ImageDimensions } from './dimensions';
+
+/**
+ * Longest redirect chain stored in object metadata (characters)
+ * R2 limits all custom metadata of an object to 2KB.
+ */
+const MAX_REDIRECT_METADATA_LENGTH = 1024;
 
 /**
  * Get cached media from R2
@@ -28,30 +41,123 @@ export async function getCacheHead(
 
 /**
  * Delete media from cache
+ *
+ * Checks which keys exist before deleting so callers can report what was
+ * actually removed (R2.delete() succeeds silently for missing keys).
+ *
+ * @returns Cache keys that existed and were deleted
  */
 export async function deleteFromCache(
+  env: Env,
+  cacheKeys: string | string[]
+): Promise<string[]> {
+  const keys = Array.isArray(cacheKeys) ? cacheKeys : [cacheKeys];
+  if (keys.length === 0) return [];
+
+  const heads = await Promise.all(keys.map(key => env.R2.head(key)));
+  const existing = keys.filter((_, i) => heads[i] !== null);
+
+  if (existing.length > 0) {
+    await env.R2.delete(existing);
+  }
+
+  return existing;
+}
+
+/**
+ * Delete all transformed variants of a cached object
+ *
+ * Variants live under "{cacheKey}//..." (see getVariantKey), so they are
+ * found with a prefix listing - the original object itself is not matched.
+ *
+ * @returns Variant keys that were deleted
+ */
+export async function deleteVariantsFromCache(
   env: Env,
   cacheKey: string
-): Promise<void> {
-  await env.R2.delete(cacheKey);
+): Promise<string[]> {
+  const deleted: string[] = [];
+  let truncated = true;
+
+  while (truncated) {
+    const listing = await env.R2.list({ prefix: getVariantPrefix(cacheKey), limit: 1000 });
+    const keys = listing.objects.map(object => object.key);
+
+    if (keys.length > 0) {
+      await env.R2.delete(keys);
+      deleted.push(...keys);
+    }
+
+    truncated = listing.truncated;
+  }
+
+  return deleted;
+}
+
+/**
+ * Delete one page of cached objects under a key prefix
+ *
+ * Lists up to `limit` keys and deletes them in a single R2 call.
+ * Because deleted keys no longer appear in listings, calling this
+ * repeatedly walks the whole prefix without a cursor.
+ *
+ * @returns Number of keys deleted and whether more keys remain
+ */
+export async function deleteBatchFromCache(
+  env: Env,
+  prefix: string,
+  limit: number
+): Promise<{ count: number; truncated: boolean }> {
+  const listing = await env.R2.list({ prefix, limit });
+  const keys = listing.objects.map(object => object.key);
+
+  if (keys.length > 0) {
+    await env.R2.delete(keys);
+  }
+
+  return { count: keys.length, truncated: listing.truncated };
 }
 
 /**
- * Check ETag for conditional requests
+ * Evaluate conditional request headers against a cached object
+ *
+ * Shared by the HEAD, full and range paths (see conditional.ts for the
+ * RFC 9110 evaluation order).
+ *
+ * @param headers - CORS and Vary headers of the full response (default: CORS for any origin)
+ * @param signedUntil - Expiry of the request's signed URL (see getCacheControlHeader)
+ * @returns 304 or 412 response, or null to continue serving the object
  */
 export function handleConditionalRequest(
   request: Request,
-  etag: string
+  object: R2Object,
+  headers: Record<string, string> = getCORSHeaders(),
+  signedUntil?: number
 ): Response | null {
-  const ifNoneMatch = request.headers.get('If-None-Match');
+  const result = evaluatePreconditions(request, {
+    etag: object.httpEtag,
+    lastModified: object.uploaded,
+  });
 
-  if (ifNoneMatch && ifNoneMatch === etag) {
+  if (result === 'not_modified') {
     return new Response(null, {
       status: 304,
       headers: {
-        'ETag': etag,
-        'Cache-Control': 'public, max-age=31536000, immutable',
-        ...getCORSHeaders(),
+        'ETag': object.httpEtag,
+        'Last-Modified': object.uploaded.toUTCString(),
+        'Cache-Control': getCacheControlHeader(getObjectFreshness(object).ttl, signedUntil),
+        ...headers,
+      },
+    });
+  }
+
+  if (result === 'precondition_failed') {
+    return new Response(null, {
+      status: 412,
+      headers: {
+        'ETag': object.httpEtag,
+        'Cache-Control': 'no-store',
+        ...headers,
       },
     });
   }
@@ -83,15 +189,171 @@ export async function getFromCacheWithRange(
 }
 
 /**
- * Store media in cache using streaming (no memory buffering)
+ * Build a multipart/byteranges body from several ranged R2 reads
+ *
+ * Ranges are read one at a time as the client consumes the body, so only
+ * one R2 read is open at once. Each read is conditional on the ETag the
+ * caller validated, so an object replaced mid-response can never be
+ * spliced together from two versions - the body errors instead.
+ *
+ * @param env - Environment bindings
+ * @param cacheKey - Cache key
+ * @param ranges - Sorted, non-overlapping ranges (from parseRangeSet)
+ * @param totalSize - Full object size
+ * @param contentType - Object MIME type (repeated in each part)
+ * @param etag - ETag of the object the ranges were computed against
+ * @returns Body stream plus the values for Content-Type / Content-Length
+ */
+export function getMultipartRangeBody(
+  env: Env,
+  cacheKey: string,
+  ranges: RangeInfo[],
+  totalSize: number,
+  contentType: string,
+  etag: string
+): { body: ReadableStream; contentType: string; contentLength: number } {
+  const layout = buildMultipartByterangesLayout(ranges, totalSize, contentType);
+  const encoder = new TextEncoder();
+  const { readable, writable } = new FixedLengthStream(layout.contentLength);
+
+  const writeParts = async () => {
+    const writer = writable.getWriter();
+    try {
+      for (let i = 0; i < ranges.length; i++) {
+        await writer.write(encoder.encode(layout.partHeaders[i]));
+
+        const part = await env.R2.get(cacheKey, {
+          range: { offset: ranges[i].start, length: ranges[i].length },
+          onlyIf: { etagMatches: etag },
+        });
+        if (!part || !('body' in part)) {
+          throw new Error(`Cached object changed or disappeared during multipart range read: ${cacheKey}`);
+        }
+
+        const reader = part.body.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await writer.write(value);
+        }
+      }
+
+      await writer.write(encoder.encode(layout.trailer));
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => {});
+    }
+  };
+
+  writeParts();
+
+  return {
+    body: readable,
+    contentType: `multipart/byteranges; boundary=${layout.boundary}`,
+    contentLength: layout.contentLength,
+  };
+}
+
+/**
+ * Multipart part size for unknown-length uploads
+ *
+ * R2 requires every part except the last to be the same size and at least
+ * 5 MiB. This is also the most we buffer in memory per upload.
+ */
+const MULTIPART_PART_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Store a stream of unknown length (chunked transfer encoding)
+ *
+ * Buffers up to one part at a time. Bodies that end before filling the
+ * first part are stored with a single put(); larger bodies go through an
+ * R2 multipart upload. If the stream errors (e.g. createSizeLimitedStream
+ * hit MAX_FILE_SIZE, or the origin dropped), the upload is aborted so no
+ * partial object or orphaned parts are left behind.
+ *
+ * @returns Total bytes stored
+ */
+async function storeUnknownLengthStream(
+  env: Env,
+  cacheKey: string,
+  body: ReadableStream<Uint8Array>,
+  options: R2MultipartOptions
+): Promise<number> {
+  const reader = body.getReader();
+  let upload: R2MultipartUpload | null = null;
+  const parts: R2UploadedPart[] = [];
+  let buffer = new Uint8Array(MULTIPART_PART_SIZE);
+  let buffered = 0;
+  let totalBytes = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      totalBytes += value.byteLength;
+      let offset = 0;
+
+      // Split the chunk across part boundaries so every part is exactly MULTIPART_PART_SIZE
+      while (offset < value.byteLength) {
+        const take = Math.min(value.byteLength - offset, MULTIPART_PART_SIZE - buffered);
+        buffer.set(value.subarray(offset, offset + take), buffered);
+        buffered += take;
+        offset += take;
+
+        if (buffered === MULTIPART_PART_SIZE) {
+          upload = upload || await env.R2.createMultipartUpload(cacheKey, options);
+          parts.push(await upload.uploadPart(parts.length + 1, buffer));
+          buffer = new Uint8Array(MULTIPART_PART_SIZE);
+          buffered = 0;
+        }
+      }
+    }
+
+    // Small body: never filled a part, store in one request
+    if (!upload) {
+      await env.R2.put(cacheKey, buffer.subarray(0, buffered), options);
+      return totalBytes;
+    }
+
+    if (buffered > 0) {
+      parts.push(await upload.uploadPart(parts.length + 1, buffer.subarray(0, buffered)));
+    }
+
+    await upload.complete(parts);
+    return totalBytes;
+  } catch (error) {
+    if (upload) {
+      await upload.abort().catch(abortError => {
+        console.error(`[R2 CACHE] Failed to abort multipart upload for ${cacheKey}:`, abortError);
+      });
+    }
+    reader.cancel(error).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Store media in cache using streaming (no full-body memory buffering)
+ *
+ * Known length: streamed straight into R2.put() via FixedLengthStream.
+ * Unknown length (chunked): streamed through a multipart upload,
+ * buffering at most one part (see storeUnknownLengthStream).
+ *
+ * The caller is responsible for size enforcement: pass a stream from
+ * createSizeLimitedStream() so oversized bodies error and abort the upload.
  *
  * @param env - Environment bindings
  * @param cacheKey - Cache key
  * @param body - ReadableStream from origin response
  * @param contentType - MIME type
- * @param contentLength - Size in bytes (optional, for metadata)
+ * @param contentLength - Size in bytes, or null if unknown (chunked)
  * @param sourceUrl - Original source URL
  * @param domain - Origin domain
+ * @param freshness - TTL and origin validators (default: immutable, no validators)
+ * @param redirects - Origin redirect chain (see fetchFromOrigin), shown by the debug viewer
+ * @param sniffedType - Type detected from the body's magic bytes (see sniffContent)
+ * @param dimensions - Image width and height from its header (see readImageDimensions)
  */
 export async function storeInCacheStream(
   env: Env,
@@ -100,22 +362,43 @@ export async function storeInCacheStream(
   contentType: string,
   contentLength: number | null,
   sourceUrl: string,
-  domain: string
+  domain: string,
+  freshness: FreshnessInfo = { ttl: null },
+  redirects: string[] = [],
+  sniffedType: string | null = null,
+  dimensions: ImageDimensions | null = null
 ): Promise<void> {
-  // R2.put() requires streams with known length.
-  // Skip caching for chunked responses (no Content-Length) to avoid:
-  // 1. Memory exhaustion from buffering potentially large files
-  // 2. Cloudflare Workers memory limits (typically 128MB)
-  // Most media files have Content-Length; chunked is rare for static content.
+  const cachedAt = new Date().toISOString();
+
+  // Very long chains are summarized to stay within the metadata limit
+  let redirectChain = redirects.join(' -> ');
+  if (redirectChain.length > MAX_REDIRECT_METADATA_LENGTH) {
+    redirectChain = `${redirects.length} redirects`;
+  }
+
+  const options: R2PutOptions & R2MultipartOptions = {
+    httpMetadata: {
+      contentType: contentType,
+      cacheControl: getCacheControlHeader(freshness.ttl),
+    },
+    customMetadata: {
+      sourceUrl: sourceUrl,
+      domain: domain,
+      cachedAt: cachedAt,
+      ...(contentLength !== null ? { contentLength: contentLength.toString() } : {}),
+      ...(redirectChain ? { redirects: redirectChain } : {}),
+      ...(sniffedType ? { sniffedType } : {}),
+      ...(dimensions ? { width: dimensions.width.toString(), height: dimensions.height.toString() } : {}),
+      ...toFreshnessMetadata(freshness),
+    },
+  };
+
   if (contentLength === null) {
-    console.log(`[R2 CACHE] Skipping cache for chunked response: ${cacheKey}`);
-    // Consume and discard the stream to avoid memory leaks
-    await body.cancel();
+    const storedBytes = await storeUnknownLengthStream(env, cacheKey, body, options);
+    console.log(`[R2 CACHE] Stored chunked response: ${cacheKey} (${storedBytes} bytes)`);
     return;
   }
 
-  const cachedAt = new Date().toISOString();
-
   // Wrap in FixedLengthStream for known-length streams
   const { readable, writable } = new FixedLengthStream(contentLength);
   body.pipeTo(writable).catch(() => {
@@ -123,16 +406,57 @@ export async function storeInCacheStream(
   });
   const uploadBody = readable;
 
-  await env.R2.put(cacheKey, uploadBody, {
+  await env.R2.put(cacheKey, uploadBody, options);
+}
+
+/**
+ * Store a transformed image variant
+ *
+ * Variants are small and already in memory, so they are stored with a
+ * single put(). They inherit the original's TTL for Cache-Control.
+ *
+ * A variant is only valid while it is newer than its original: a refreshed
+ * original (revalidation, ?force=1) makes older variants obsolete.
+ *
+ * @param env - Environment bindings
+ * @param variantKey - Variant cache key (see getVariantKey)
+ * @param variant - Transformed image
+ * @param sourceUrl - Original source URL
+ * @param domain - Origin domain
+ * @param ttl - TTL of the original in seconds, null = immutable
+ */
+export async function storeVariantInCache(
+  env: Env,
+  variantKey: string,
+  variant: ImageVariant,
+  sourceUrl: string,
+  domain: string,
+  ttl: number | null
+): Promise<void> {
+  await env.R2.put(variantKey, variant.data, {
     httpMetadata: {
-      contentType: contentType,
-      cacheControl: 'public, max-age=31536000, immutable',
+      contentType: variant.contentType,
+      cacheControl: getCacheControlHeader(ttl),
     },
     customMetadata: {
       sourceUrl: sourceUrl,
       domain: domain,
-      cachedAt: cachedAt,
-      ...(contentLength !== null ? { contentLength: contentLength.toString() } : {}),
+      cachedAt: new Date().toISOString(),
+      width: variant.width.toString(),
+      height: variant.height.toString(),
+      ...toFreshnessMetadata({ ttl }),
     },
   });
+
+  console.log(`[R2 CACHE] Stored variant: ${variantKey} (${variant.data.byteLength} bytes)`);
+}
+
+/**
+ * Check if a cached variant is still current
+ *
+ * @param variant - Cached variant
+ * @param original - Cached original, or null if it is gone
+ */
+export function isVariantCurrent(variant: R2Object, original: R2Object | null): boolean {
+  return original !== null && variant.uploaded.getTime() >= original.uploaded.getTime();
 }
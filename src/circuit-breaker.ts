@@ -0,0 +1,193 @@
+/**
+ * Origin Circuit Breaker Durable Object
+ *
+ * Each origin domain gets its own Durable Object instance that tracks the
+ * outcome of origin fetches and stops the worker from waiting on an origin
+ * that is down:
+ *
+ *   closed    - fetches go through; consecutive failures are counted
+ *   open      - after `threshold` consecutive failures: misses redirect to
+ *               the origin immediately, until the cooldown has passed
+ *   half_open - after the cooldown: one probe fetch goes through; success
+ *               closes the circuit, failure re-opens it with twice the
+ *               cooldown (capped at MAX_COOLDOWN)
+ *
+ * Failures are timeouts, network errors, 5xx responses, rate limiting and
+ * challenge pages (see getResponseOutcome). Any success closes the circuit.
+ *
+ * State lives in memory only. Eviction (after a period without requests)
+ * resets the circuit to closed, so an idle origin simply gets retried.
+ *
+ * Routes (called by the worker, see circuit.ts):
+ *   POST /check  - may this request fetch from origin?
+ *   POST /record - record a fetch outcome
+ *   GET  /state  - current state (admin endpoint)
+ *   POST /reset  - close the circuit (admin endpoint)
+ */
+
+import type { Env } from './types';
+
+/** Upper bound for the cooldown after repeated failed probes (ms) */
+const MAX_COOLDOWN = 10 * 60 * 1000;
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Settings sent by the worker with every call
+ */
+export interface CircuitSettings {
+	threshold: number;     // Consecutive failures that open the circuit
+	cooldown: number;      // Seconds the circuit stays open (first time)
+	probeTimeout: number;  // Milliseconds before a silent probe counts as lost
+}
+
+export interface CircuitDecision {
+	allowed: boolean;
+	probe: boolean;        // This request is the half-open probe
+	state: CircuitState;
+	retryAfter: number;    // Seconds until the next probe (0 if allowed)
+}
+
+export interface CircuitOutcome {
+	success: boolean;
+	reason?: string;       // Failure reason (timeout, http_503, blocked reason, ...)
+}
+
+export interface CircuitSnapshot {
+	state: CircuitState;
+	consecutiveFailures: number;
+	openedAt: string | null;
+	openUntil: string | null;
+	lastFailure: { reason: string; at: string } | null;
+	lastSuccessAt: string | null;
+	failures: number;      // Since this instance started
+	successes: number;
+}
+
+export class OriginCircuitBreaker implements DurableObject {
+	private state: CircuitState = 'closed';
+	private consecutiveFailures: number = 0;
+	private cooldownMs: number = 0;
+	private openedAt: number = 0;
+	private openUntil: number = 0;
+	private probeStartedAt: number = 0;
+	private lastFailure: { reason: string; at: number } | null = null;
+	private lastSuccessAt: number = 0;
+	private failures: number = 0;
+	private successes: number = 0;
+
+	constructor(_state: DurableObjectState, _env: Env) {}
+
+	async fetch(request: Request): Promise<Response> {
+		try {
+			const { pathname } = new URL(request.url);
+			const now = Date.now();
+
+			switch (pathname) {
+				case '/check': {
+					const { settings }: { settings: CircuitSettings } = await request.json();
+					return this.json(this.check(settings, now));
+				}
+				case '/record': {
+					const { settings, outcome }: { settings: CircuitSettings; outcome: CircuitOutcome } = await request.json();
+					this.record(settings, outcome, now);
+					return this.json(this.snapshot());
+				}
+				case '/state':
+					return this.json(this.snapshot());
+				case '/reset':
+					this.close();
+					return this.json(this.snapshot());
+				default:
+					return new Response('Not found', { status: 404 });
+			}
+		} catch (err) {
+			console.error('Circuit breaker fetch error:', err);
+			return new Response('Error', { status: 500 });
+		}
+	}
+
+	private json(data: unknown): Response {
+		return new Response(JSON.stringify(data), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
+	private check(settings: CircuitSettings, now: number): CircuitDecision {
+		if (this.state === 'open' && now >= this.openUntil) {
+			this.state = 'half_open';
+			this.probeStartedAt = 0;
+		}
+
+		if (this.state === 'closed') {
+			return { allowed: true, probe: false, state: this.state, retryAfter: 0 };
+		}
+
+		if (this.state === 'open') {
+			const retryAfter = Math.max(1, Math.ceil((this.openUntil - now) / 1000));
+			return { allowed: false, probe: false, state: this.state, retryAfter };
+		}
+
+		// Half-open: one probe at a time; a probe that never reported back is lost
+		if (this.probeStartedAt && now - this.probeStartedAt < settings.probeTimeout) {
+			const retryAfter = Math.max(1, Math.ceil((this.probeStartedAt + settings.probeTimeout - now) / 1000));
+			return { allowed: false, probe: false, state: this.state, retryAfter };
+		}
+
+		this.probeStartedAt = now;
+		return { allowed: true, probe: true, state: this.state, retryAfter: 0 };
+	}
+
+	private record(settings: CircuitSettings, outcome: CircuitOutcome, now: number): void {
+		if (outcome.success) {
+			this.successes += 1;
+			this.lastSuccessAt = now;
+			this.close();
+			return;
+		}
+
+		this.failures += 1;
+		this.consecutiveFailures += 1;
+		this.lastFailure = { reason: outcome.reason || 'unknown', at: now };
+
+		if (this.state === 'half_open') {
+			// Failed probe: back off further
+			this.open(Math.min(this.cooldownMs * 2, MAX_COOLDOWN), now);
+		} else if (this.state === 'closed' && this.consecutiveFailures >= settings.threshold) {
+			this.open(settings.cooldown * 1000, now);
+		}
+	}
+
+	private open(cooldownMs: number, now: number): void {
+		this.state = 'open';
+		this.cooldownMs = cooldownMs;
+		this.openedAt = now;
+		this.openUntil = now + cooldownMs;
+		this.probeStartedAt = 0;
+	}
+
+	private close(): void {
+		this.state = 'closed';
+		this.consecutiveFailures = 0;
+		this.cooldownMs = 0;
+		this.openedAt = 0;
+		this.openUntil = 0;
+		this.probeStartedAt = 0;
+	}
+
+	private snapshot(): CircuitSnapshot {
+		const iso = (time: number) => time ? new Date(time).toISOString() : null;
+		return {
+			state: this.state,
+			consecutiveFailures: this.consecutiveFailures,
+			openedAt: iso(this.openedAt),
+			openUntil: iso(this.openUntil),
+			lastFailure: this.lastFailure
+				? { reason: this.lastFailure.reason, at: new Date(this.lastFailure.at).toISOString() }
+				: null,
+			lastSuccessAt: iso(this.lastSuccessAt),
+			failures: this.failures,
+			successes: this.successes,
+		};
+	}
+}
@@ -0,0 +1,186 @@
+/**
+ * Origin circuit breaker utilities
+ *
+ * Asks the origin's OriginCircuitBreaker Durable Object (see
+ * circuit-breaker.ts) before each origin fetch (cache miss, background fill,
+ * revalidation) and reports the outcome afterwards. While an origin's
+ * circuit is open, misses redirect to the origin immediately instead of
+ * waiting for FETCH_TIMEOUT.
+ *
+ * Configuration:
+ *   CIRCUIT_BREAKER_THRESHOLD - consecutive failures that open the circuit (default 5)
+ *   CIRCUIT_BREAKER_COOLDOWN  - seconds before the first probe (default 30)
+ *
+ * Requires the CIRCUIT_BREAKER binding; without it every miss goes to the
+ * origin. A failing breaker lets requests through.
+ *
+ * Admin endpoint (ADMIN_SECRET or the domain's site token):
+ *   GET    /_admin/origins/{domain} - circuit state and recent failures
+ *   DELETE /_admin/origins/{domain} - close the circuit (e.g. after a fix)
+ */
+
+import type { Env } from './types';
+import type { CircuitSettings, CircuitDecision, CircuitOutcome } from './circuit-breaker';
+import { getBearerToken, isAuthorizedForDomain } from './auth';
+import { isValidDomain } from './validation';
+import { errorResponse, jsonResponse } from './utils';
+
+const DEFAULT_THRESHOLD = 5;
+const DEFAULT_COOLDOWN = 30;
+
+/** Extra time a probe gets on top of the fetch timeout before it counts as lost (ms) */
+const PROBE_GRACE_PERIOD = 5000;
+
+/** Block reasons that mean the origin is refusing us, not just this path */
+const FAILURE_BLOCK_REASONS = new Set(['rate_limited', 'html_challenge_page']);
+
+/**
+ * Read circuit breaker settings from env
+ *
+ * @param fetchTimeout - The domain's origin fetch timeout (ms)
+ */
+function getCircuitSettings(env: Env, fetchTimeout: number): CircuitSettings {
+  const threshold = parseInt(env.CIRCUIT_BREAKER_THRESHOLD || '', 10);
+  const cooldown = parseInt(env.CIRCUIT_BREAKER_COOLDOWN || '', 10);
+
+  return {
+    threshold: isNaN(threshold) || threshold < 1 ? DEFAULT_THRESHOLD : threshold,
+    cooldown: isNaN(cooldown) || cooldown < 1 ? DEFAULT_COOLDOWN : cooldown,
+    probeTimeout: fetchTimeout + PROBE_GRACE_PERIOD,
+  };
+}
+
+/**
+ * Call the origin's circuit breaker
+ */
+async function callCircuitBreaker(
+  namespace: DurableObjectNamespace,
+  domain: string,
+  path: string,
+  body?: unknown
+): Promise<Response> {
+  const stub = namespace.get(namespace.idFromName(`origin:${domain}`));
+  const response = await stub.fetch(new Request(`https://circuit-breaker${path}`, body === undefined
+    ? { method: path === '/state' ? 'GET' : 'POST' }
+    : { method: 'POST', body: JSON.stringify(body) }
+  ));
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Check if a cache miss may fetch from the origin
+ *
+ * @param fetchTimeout - The domain's origin fetch timeout (ms)
+ */
+export async function checkCircuit(env: Env, domain: string, fetchTimeout: number): Promise<CircuitDecision> {
+  if (!env.CIRCUIT_BREAKER) {
+    return { allowed: true, probe: false, state: 'closed', retryAfter: 0 };
+  }
+
+  try {
+    const settings = getCircuitSettings(env, fetchTimeout);
+    const response = await callCircuitBreaker(env.CIRCUIT_BREAKER, domain, '/check', { settings });
+    return await response.json();
+  } catch (error) {
+    console.error(`Circuit breaker check failed for ${domain}:`, error);
+    return { allowed: true, probe: false, state: 'closed', retryAfter: 0 };
+  }
+}
+
+/**
+ * Record the outcome of an origin fetch (fire-and-forget via ctx.waitUntil)
+ *
+ * @param fetchTimeout - The domain's origin fetch timeout (ms)
+ */
+export async function recordOriginOutcome(
+  env: Env,
+  domain: string,
+  fetchTimeout: number,
+  outcome: CircuitOutcome
+): Promise<void> {
+  if (!env.CIRCUIT_BREAKER) return;
+
+  try {
+    const settings = getCircuitSettings(env, fetchTimeout);
+    await callCircuitBreaker(env.CIRCUIT_BREAKER, domain, '/record', { settings, outcome });
+  } catch (error) {
+    console.error(`Circuit breaker record failed for ${domain}:`, error);
+  }
+}
+
+/**
+ * Circuit outcome of an origin response
+ *
+ * Server errors, rate limiting and challenge pages are failures. Anything
+ * else (404, a WAF 403, an HTML error page) means the origin is up.
+ *
+ * @param blockReason - From fetchMediaFromOrigin, if the response was blocked
+ */
+export function getResponseOutcome(response: Response, blockReason?: string): CircuitOutcome {
+  if (blockReason && FAILURE_BLOCK_REASONS.has(blockReason)) {
+    return { success: false, reason: blockReason };
+  }
+  if (response.status >= 500) {
+    return { success: false, reason: `http_${response.status}` };
+  }
+  return { success: true };
+}
+
+/**
+ * Classify a failed origin fetch (fetchFromOrigin threw)
+ *
+ * @returns Failure reason, or null if the error says nothing about origin
+ *          health (URL validation, blocked redirect, redirect limit)
+ */
+export function getFetchErrorReason(error: unknown): string | null {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.startsWith('Request timeout')) return 'timeout';
+  if (message.startsWith('Invalid URL') || message.startsWith('Redirect ')) return null;
+  return 'fetch_error';
+}
+
+/**
+ * Handle GET / DELETE /_admin/origins/{domain}
+ */
+export async function handleOriginHealthRequest(
+  request: Request,
+  env: Env,
+  domain: string
+): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'DELETE') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const token = getBearerToken(request);
+  if (!token) {
+    return errorResponse('Authorization required', 401);
+  }
+
+  const normalizedDomain = domain.toLowerCase();
+  if (!isValidDomain(normalizedDomain)) {
+    return errorResponse('Invalid domain', 400);
+  }
+
+  if (!await isAuthorizedForDomain(token, normalizedDomain, env)) {
+    return errorResponse('Forbidden', 403);
+  }
+
+  if (!env.CIRCUIT_BREAKER) {
+    return errorResponse('Circuit breaker not configured', 404);
+  }
+
+  try {
+    const path = request.method === 'DELETE' ? '/reset' : '/state';
+    const response = await callCircuitBreaker(env.CIRCUIT_BREAKER, normalizedDomain, path);
+    if (request.method === 'DELETE') {
+      console.log(`[Circuit] ${normalizedDomain}: reset by admin`);
+    }
+    return jsonResponse({ domain: normalizedDomain, ...await response.json<object>() });
+  } catch (error) {
+    console.error(`Circuit breaker state failed for ${normalizedDomain}:`, error);
+    return errorResponse('Circuit breaker unavailable', 503);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Cache miss coalescing utilities
+ *
+ * When many clients request the same uncached object at once (a new article
+ * going viral), only one of them fetches it from the origin. The others wait
+ * for the object to land in R2 and are then served from the cache. See
+ * miss-coalescer.ts for the lease protocol.
+ *
+ *   leader   - fetches and stores as usual; releases the lease once the R2
+ *              write finished (or failed), or when the request ends without
+ *              storing anything (redirect, error). Transformed requests
+ *              release once the variant is stored, and new variants of a
+ *              cached original are coalesced under the variant key.
+ *   follower - waits while the leader makes progress (see trackFillProgress),
+ *              at most MAX_FOLLOWER_WAIT, then reads the object from R2; if
+ *              the leader stored nothing, redirects to the origin
+ *
+ * The lease first lasts twice the domain's fetch timeout (the origin has to
+ * answer within one). Once the origin answers, the leader renews it for
+ * LEASE_PROGRESS_TTL whenever body bytes arrive, so a large object that keeps
+ * streaming is waited for and a stalled one is given up on.
+ *
+ * Background fills after a ranged miss take the same lease without waiting
+ * (acquireFillLease): a fill already in progress - or a leader fetching the
+ * full object - makes another fill unnecessary.
+ *
+ * Requires the MISS_COALESCER binding; without it every miss fetches from the
+ * origin. A failing coalescer lets requests through.
+ */
+
+import type { Env } from './types';
+import type { AcquireResult, FillOutcome } from './miss-coalescer';
+
+/** How long a lease lasts after each sign of progress from the leader (ms) */
+const LEASE_PROGRESS_TTL = 10_000;
+
+/** Minimum interval between lease renewals while a body streams (ms) */
+const LEASE_RENEW_INTERVAL = 2_000;
+
+/** Longest a follower waits, however long the leader keeps making progress (ms) */
+const MAX_FOLLOWER_WAIT = 60_000;
+
+/**
+ * A held fill lease (leader only)
+ */
+export interface FillLease {
+  cacheKey: string;
+  id: string;
+  released: boolean;
+}
+
+export type CoalesceResult =
+  | { role: 'leader'; lease: FillLease }
+  | { role: 'follower'; outcome: FillOutcome }
+  | { role: 'none' };  // Coalescing unavailable - fetch as usual
+
+/**
+ * Get the coalescer stub for a cache key
+ */
+function getCoalescer(namespace: DurableObjectNamespace, cacheKey: string): DurableObjectStub {
+  return namespace.get(namespace.idFromName(cacheKey));
+}
+
+/**
+ * Ask the coalescer for the lease on a cache key
+ */
+async function acquire(
+  namespace: DurableObjectNamespace,
+  cacheKey: string,
+  fetchTimeout: number,
+  wait: number
+): Promise<CoalesceResult> {
+  try {
+    const response = await getCoalescer(namespace, cacheKey).fetch(new Request('https://miss-coalescer/acquire', {
+      method: 'POST',
+      body: JSON.stringify({ leaseTtl: fetchTimeout * 2, wait }),
+    }));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const result: AcquireResult = await response.json();
+    return result.role === 'leader'
+      ? { role: 'leader', lease: { cacheKey, id: result.leaseId, released: false } }
+      : result;
+  } catch (error) {
+    console.error(`Miss coalescer acquire failed for ${cacheKey}:`, error);
+    return { role: 'none' };
+  }
+}
+
+/**
+ * Become the leader for a cache miss, or wait for the current leader
+ *
+ * @param env - Environment bindings
+ * @param cacheKey - R2 key of the missing object (or variant)
+ * @param fetchTimeout - The domain's origin fetch timeout (ms) - the lease
+ *                       lasts twice as long until the leader renews it
+ */
+export async function coalesceMiss(env: Env, cacheKey: string, fetchTimeout: number): Promise<CoalesceResult> {
+  if (!env.MISS_COALESCER) {
+    return { role: 'none' };
+  }
+
+  return acquire(env.MISS_COALESCER, cacheKey, fetchTimeout, MAX_FOLLOWER_WAIT);
+}
+
+/**
+ * Take the lease for a background fill without waiting
+ *
+ * @returns leader (fill and release), follower with outcome 'busy' (another
+ *          request is already fetching the object - skip the fill), or none
+ */
+export async function acquireFillLease(env: Env, cacheKey: string, fetchTimeout: number): Promise<CoalesceResult> {
+  if (!env.MISS_COALESCER) {
+    return { role: 'none' };
+  }
+
+  return acquire(env.MISS_COALESCER, cacheKey, fetchTimeout, 0);
+}
+
+/**
+ * Extend a fill lease by LEASE_PROGRESS_TTL (the leader made progress)
+ */
+function renewFillLease(env: Env, ctx: ExecutionContext, lease: FillLease): void {
+  if (lease.released || !env.MISS_COALESCER) return;
+
+  ctx.waitUntil(
+    getCoalescer(env.MISS_COALESCER, lease.cacheKey).fetch(new Request('https://miss-coalescer/renew', {
+      method: 'POST',
+      body: JSON.stringify({ leaseId: lease.id, leaseTtl: LEASE_PROGRESS_TTL }),
+    })).catch(error => {
+      console.error(`Miss coalescer renew failed for ${lease.cacheKey}:`, error);
+    })
+  );
+}
+
+/**
+ * Keep a fill lease alive while the origin body streams
+ *
+ * Renews the lease now (the origin answered), at most every
+ * LEASE_RENEW_INTERVAL while bytes arrive, and once the body is complete
+ * (covering the R2 write or transformation that follows).
+ *
+ * @param body - The leader's origin response body
+ * @returns The same bytes
+ */
+export function trackFillProgress(
+  env: Env,
+  ctx: ExecutionContext,
+  lease: FillLease,
+  body: ReadableStream<Uint8Array>
+): ReadableStream<Uint8Array> {
+  let lastRenewal = Date.now();
+  renewFillLease(env, ctx, lease);
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      if (Date.now() - lastRenewal >= LEASE_RENEW_INTERVAL) {
+        lastRenewal = Date.now();
+        renewFillLease(env, ctx, lease);
+      }
+      controller.enqueue(chunk);
+    },
+    flush() {
+      renewFillLease(env, ctx, lease);
+    },
+  }));
+}
+
+/**
+ * Release a fill lease and wake the followers
+ *
+ * @param stored - The leader's R2 write: followers are told the object is
+ *                 stored if it resolves (to anything but false); null if
+ *                 nothing was stored
+ */
+export function releaseFillLease(
+  env: Env,
+  ctx: ExecutionContext,
+  lease: FillLease | null,
+  stored: Promise<unknown> | null = null
+): void {
+  if (!lease || lease.released || !env.MISS_COALESCER) return;
+  lease.released = true;
+
+  const namespace = env.MISS_COALESCER;
+  ctx.waitUntil(
+    (stored ? stored.then(result => result !== false, () => false) : Promise.resolve(false))
+      .then(ok => getCoalescer(namespace, lease.cacheKey).fetch(new Request('https://miss-coalescer/release', {
+        method: 'POST',
+        body: JSON.stringify({ leaseId: lease.id, stored: ok }),
+      })))
+      .catch(error => {
+        console.error(`Miss coalescer release failed for ${lease.cacheKey}:`, error);
+      })
+  );
+}
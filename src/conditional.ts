@@ -0,0 +1,166 @@
+/**
+ * HTTP conditional request evaluation (RFC 9110 section 13)
+ *
+ * Evaluates preconditions against a cached object's validators in the
+ * order required by RFC 9110 section 13.2.2:
+ *
+ *   1. If-Match            false -> 412 Precondition Failed
+ *   2. If-Unmodified-Since false -> 412 (only without If-Match)
+ *   3. If-None-Match       false -> 304 Not Modified (GET/HEAD)
+ *   4. If-Modified-Since   false -> 304 (GET/HEAD, only without If-None-Match)
+ *   5. If-Range            false -> ignore Range, send full representation
+ *
+ * Entity tags accept the "*" wildcard, comma-separated lists and weak
+ * validators (W/"..."). If-Match and If-Range use strong comparison;
+ * If-None-Match uses weak comparison.
+ *
+ * COMPATIBILITY: Older responses sent R2's unquoted etag, so clients may
+ * echo an unquoted value back. Unquoted tags are accepted as strong tags.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-13
+ */
+
+/**
+ * Validators of the selected representation
+ */
+export interface Validators {
+  etag: string;        // Opaque tag, with or without quotes
+  lastModified: Date;
+}
+
+export type PreconditionResult = 'proceed' | 'not_modified' | 'precondition_failed';
+
+interface EntityTag {
+  weak: boolean;
+  opaque: string;
+}
+
+/**
+ * Normalize an entity tag to its opaque value and weakness
+ */
+function parseEntityTag(tag: string): EntityTag {
+  let value = tag.trim();
+  let weak = false;
+
+  if (value.startsWith('W/')) {
+    weak = true;
+    value = value.substring(2);
+  }
+
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    value = value.substring(1, value.length - 1);
+  }
+
+  return { weak, opaque: value };
+}
+
+/**
+ * Parse an entity-tag list header (If-Match / If-None-Match)
+ *
+ * @returns '*' for the wildcard, otherwise the list of tags
+ */
+function parseEntityTagList(header: string): '*' | EntityTag[] {
+  if (header.trim() === '*') {
+    return '*';
+  }
+
+  // Quoted tags may contain commas, so match tags rather than split on ","
+  const matches = header.match(/(?:W\/)?"[^"]*"|[^,\s]+/g) || [];
+  return matches.map(parseEntityTag);
+}
+
+function strongMatch(a: EntityTag, b: EntityTag): boolean {
+  return !a.weak && !b.weak && a.opaque === b.opaque;
+}
+
+function weakMatch(a: EntityTag, b: EntityTag): boolean {
+  return a.opaque === b.opaque;
+}
+
+/**
+ * Parse an HTTP-date to whole seconds (HTTP dates have 1s resolution)
+ */
+function parseHttpDateSeconds(value: string): number | null {
+  const time = Date.parse(value);
+  return isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Evaluate request preconditions (steps 1-4)
+ *
+ * @param request - Client request
+ * @param validators - Validators of the cached object
+ */
+export function evaluatePreconditions(
+  request: Request,
+  validators: Validators
+): PreconditionResult {
+  const current = parseEntityTag(validators.etag);
+  const lastModified = toSeconds(validators.lastModified);
+  const isGetOrHead = request.method === 'GET' || request.method === 'HEAD';
+
+  // Step 1: If-Match (strong comparison)
+  const ifMatch = request.headers.get('If-Match');
+  if (ifMatch) {
+    const tags = parseEntityTagList(ifMatch);
+    if (tags !== '*' && !tags.some(tag => strongMatch(tag, current))) {
+      return 'precondition_failed';
+    }
+  } else {
+    // Step 2: If-Unmodified-Since
+    const ifUnmodifiedSince = request.headers.get('If-Unmodified-Since');
+    const since = ifUnmodifiedSince ? parseHttpDateSeconds(ifUnmodifiedSince) : null;
+    if (since !== null && lastModified > since) {
+      return 'precondition_failed';
+    }
+  }
+
+  // Step 3: If-None-Match (weak comparison)
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    const tags = parseEntityTagList(ifNoneMatch);
+    if (tags === '*' || tags.some(tag => weakMatch(tag, current))) {
+      return isGetOrHead ? 'not_modified' : 'precondition_failed';
+    }
+  } else if (isGetOrHead) {
+    // Step 4: If-Modified-Since
+    const ifModifiedSince = request.headers.get('If-Modified-Since');
+    const since = ifModifiedSince ? parseHttpDateSeconds(ifModifiedSince) : null;
+    if (since !== null && lastModified <= since) {
+      return 'not_modified';
+    }
+  }
+
+  return 'proceed';
+}
+
+/**
+ * Evaluate If-Range (step 5)
+ *
+ * @returns true if the Range header should be honored, false if the full
+ *          representation must be sent (the client's copy is outdated)
+ */
+export function isRangeConditionSatisfied(
+  request: Request,
+  validators: Validators
+): boolean {
+  const ifRange = request.headers.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+
+  const value = ifRange.trim();
+
+  // Entity tag form: must be a strong match
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return strongMatch(parseEntityTag(value), parseEntityTag(validators.etag));
+  }
+
+  // Date form: must exactly equal Last-Modified
+  const date = parseHttpDateSeconds(value);
+  return date !== null && date === toSeconds(validators.lastModified);
+}
@@ -0,0 +1,186 @@
+/**
+ * Per-domain CORS and cross-origin resource policy
+ *
+ * By default every response carries "Access-Control-Allow-Origin: *" (see
+ * getCORSHeaders in utils.ts). Sites that draw images into a canvas with
+ * credentials, or embed them in pages with COEP, need more precise control:
+ *
+ *   CORS_ORIGINS                 - Per-domain allowed origins:
+ *                                  "example.com=https://example.com|https://*.example.com"
+ *                                  Listed origins are echoed back with
+ *                                  "Vary: Origin"; others get no CORS headers.
+ *                                  Domains without an entry allow "*".
+ *   CORS_CREDENTIALS             - "true" sends Access-Control-Allow-Credentials
+ *                                  (listed origins only - never with "*")
+ *   CORS_EXPOSE_HEADERS          - "true" exposes the X-ImgPro-* headers to scripts
+ *   CROSS_ORIGIN_RESOURCE_POLICY - same-origin, same-site or cross-origin
+ *                                  (default: not sent)
+ *   TIMING_ALLOW_ORIGIN          - "true" sends Timing-Allow-Origin for the
+ *                                  allowed origins (full Resource Timing data)
+ *
+ * Each can be overridden per domain in its KV config record (see
+ * domain-config.ts). Preflight requests for media paths are answered with
+ * the domain's policy; admin and stats endpoints keep the default.
+ */
+
+import type { Env, CorsPolicy, CrossOriginResourcePolicy, DomainConfigRecord } from './types';
+import { getDomainSetting, matchesDomainPattern } from './validation';
+
+/** Methods allowed on media paths (DELETE = authenticated purge) */
+const ALLOWED_METHODS = 'GET, HEAD, DELETE, OPTIONS';
+
+/** Request headers allowed on media paths */
+const ALLOWED_HEADERS = 'Range, If-Match, If-None-Match, If-Modified-Since, If-Unmodified-Since, If-Range, Authorization';
+
+/** Response headers exposed to scripts when CORS_EXPOSE_HEADERS is enabled */
+const EXPOSED_HEADERS = 'X-ImgPro-Status, X-ImgPro-Cached-At, X-ImgPro-Block-Reason, X-ImgPro-Redirect-Reason';
+
+const RESOURCE_POLICIES: CrossOriginResourcePolicy[] = ['same-origin', 'same-site', 'cross-origin'];
+
+/** Origin pattern: scheme, host (optionally *.wildcard) and port */
+const ORIGIN_PATTERN = /^https?:\/\/(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d{1,5})?$/;
+
+/** Parts of a validated origin pattern: scheme, host pattern, port */
+const ORIGIN_PARTS = /^(https?):\/\/([^:]+)(?::(\d+))?$/;
+
+/**
+ * Parse an allowed-origins setting
+ *
+ * @example "*" -> "*", "https://a.com|https://*.a.com" -> ["https://a.com", "https://*.a.com"]
+ * @returns Origin patterns, "*", or null if any entry is malformed
+ */
+export function parseCorsOrigins(value: string): string[] | '*' | null {
+  if (value.trim() === '*') return '*';
+
+  const origins = value.split('|').map(origin => origin.trim().toLowerCase()).filter(origin => origin !== '');
+  if (origins.length === 0 || !origins.every(origin => ORIGIN_PATTERN.test(origin))) {
+    return null;
+  }
+  return origins;
+}
+
+/**
+ * Check if a value is a Cross-Origin-Resource-Policy value
+ */
+export function isResourcePolicy(value: unknown): value is CrossOriginResourcePolicy {
+  return RESOURCE_POLICIES.includes(value as CrossOriginResourcePolicy);
+}
+
+/**
+ * Merge a domain's CORS settings over the env defaults
+ *
+ * Malformed CORS_ORIGINS entries fall back to "*" (the behavior without them).
+ */
+export function resolveCorsPolicy(env: Env, domain: string, record?: DomainConfigRecord): CorsPolicy {
+  const origins = record?.cors_origins ?? getDomainSetting(env.CORS_ORIGINS, domain);
+  const envResourcePolicy = env.CROSS_ORIGIN_RESOURCE_POLICY;
+
+  return {
+    allowedOrigins: (origins !== undefined ? parseCorsOrigins(origins) : null) ?? '*',
+    credentials: record?.cors_credentials ?? env.CORS_CREDENTIALS === 'true',
+    exposeHeaders: record?.cors_expose_headers ?? env.CORS_EXPOSE_HEADERS === 'true',
+    resourcePolicy: record?.cross_origin_resource_policy ?? (isResourcePolicy(envResourcePolicy) ? envResourcePolicy : null),
+    timingAllowOrigin: record?.timing_allow_origin ?? env.TIMING_ALLOW_ORIGIN === 'true',
+  };
+}
+
+/**
+ * Check if responses depend on the request's Origin header
+ */
+export function variesByOrigin(policy: CorsPolicy): boolean {
+  return policy.allowedOrigins !== '*';
+}
+
+/**
+ * Get the Access-Control-Allow-Origin value for a request
+ *
+ * @returns "*", the request's origin if it is allowed, or null
+ */
+function getAllowedOrigin(origin: string | null, policy: CorsPolicy): string | null {
+  if (policy.allowedOrigins === '*') return '*';
+  if (!origin) return null;
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return null;
+  }
+
+  const allowed = policy.allowedOrigins.some(pattern => {
+    const [, scheme, hostPattern, port = ''] = pattern.match(ORIGIN_PARTS) || [];
+    const defaultPort = scheme === 'https' ? '443' : '80';
+    return url.protocol === `${scheme}:` &&
+           url.port === (port === defaultPort ? '' : port) &&
+           matchesDomainPattern(url.hostname, hostPattern);
+  });
+  return allowed ? url.origin : null;
+}
+
+/**
+ * Get CORS and resource policy headers for a response under a domain's policy
+ *
+ * Origins that are not allowed get no CORS headers (the browser blocks
+ * script access); the response itself is still served.
+ */
+export function getDomainCORSHeaders(request: Request, policy: CorsPolicy): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const allowOrigin = getAllowedOrigin(request.headers.get('Origin'), policy);
+
+  if (allowOrigin) {
+    headers['Access-Control-Allow-Origin'] = allowOrigin;
+    if (policy.credentials && allowOrigin !== '*') {
+      headers['Access-Control-Allow-Credentials'] = 'true';
+    }
+    if (policy.exposeHeaders) {
+      headers['Access-Control-Expose-Headers'] = EXPOSED_HEADERS;
+    }
+  }
+
+  if (policy.timingAllowOrigin) {
+    // Plain <img> requests carry no Origin header: list the exact origins instead
+    const exactOrigins = policy.allowedOrigins === '*' ? [] : policy.allowedOrigins.filter(origin => !origin.includes('*'));
+    const timingOrigin = allowOrigin || exactOrigins.join(', ');
+    if (timingOrigin) {
+      headers['Timing-Allow-Origin'] = timingOrigin;
+    }
+  }
+
+  if (policy.resourcePolicy) {
+    headers['Cross-Origin-Resource-Policy'] = policy.resourcePolicy;
+  }
+
+  return headers;
+}
+
+/**
+ * Answer a CORS preflight for a media path
+ *
+ * Requests without Origin / Access-Control-Request-Method are not preflights
+ * and only get Allow. Disallowed origins and methods get no CORS headers,
+ * which fails the preflight in the browser.
+ */
+export function createPreflightResponse(request: Request, policy: CorsPolicy): Response {
+  const origin = request.headers.get('Origin');
+  const method = request.headers.get('Access-Control-Request-Method');
+  const headers: Record<string, string> = variesByOrigin(policy) ? { 'Vary': 'Origin' } : {};
+
+  if (!origin || !method) {
+    return new Response(null, { status: 204, headers: { ...headers, 'Allow': ALLOWED_METHODS } });
+  }
+
+  const allowOrigin = getAllowedOrigin(origin, policy);
+  if (!allowOrigin || !ALLOWED_METHODS.split(', ').includes(method.toUpperCase())) {
+    return new Response(null, { status: 204, headers });
+  }
+
+  headers['Access-Control-Allow-Origin'] = allowOrigin;
+  headers['Access-Control-Allow-Methods'] = ALLOWED_METHODS;
+  headers['Access-Control-Allow-Headers'] = ALLOWED_HEADERS;
+  headers['Access-Control-Max-Age'] = '86400';
+  if (policy.credentials && allowOrigin !== '*') {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+
+  return new Response(null, { status: 204, headers });
+}
@@ -0,0 +1,270 @@
+/**
+ * Image dimension guard
+ *
+ * MAX_FILE_SIZE limits bytes, not pixels: a PNG of a few kilobytes can
+ * declare 50000x50000 pixels and take down any browser (or image pipeline)
+ * that decodes it. Before an image is cached, its header is read from the
+ * start of the body (never the whole body) and the declared dimensions are
+ * checked against the domain's limits:
+ *
+ *   MAX_IMAGE_WIDTH      - pixels (default 32768)
+ *   MAX_IMAGE_HEIGHT     - pixels (default 32768)
+ *   MAX_IMAGE_MEGAPIXELS - width x height / 1e6 (default 100)
+ *
+ * "0" disables a limit. Images over a limit redirect to the origin and are
+ * not cached; accepted images are cached with their width and height.
+ *
+ * Parsed: PNG (IHDR), JPEG (SOF), GIF (logical screen), WebP (VP8, VP8L,
+ * VP8X) and AVIF/HEIF (largest ispe). Other types, and images whose header
+ * is not found within DIMENSION_SCAN_LENGTH bytes, are cached unchecked.
+ */
+
+import type { DomainConfig } from './types';
+import { readHead } from './sniff';
+
+/** Bytes read at most while looking for the header (JPEG SOF follows EXIF/ICC segments) */
+const DIMENSION_SCAN_LENGTH = 512 * 1024;
+
+/** Content types with a parsed header */
+const DIMENSION_TYPES = new Set([
+  'image/png', 'image/jpeg', 'image/jpg', 'image/gif', 'image/webp',
+  'image/avif', 'image/heic', 'image/heif',
+]);
+
+/** JPEG start-of-frame markers (SOF0-SOF15 except DHT, JPG and DAC) */
+const JPEG_SOF_MARKERS = new Set([
+  0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF,
+]);
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface DimensionResult {
+  body: ReadableStream<Uint8Array>;       // The complete body, header bytes included
+  dimensions: ImageDimensions | null;     // null if no header was found
+}
+
+/**
+ * Check if dimensions can be read for a content type
+ */
+export function hasDimensionHeader(contentType: string): boolean {
+  return DIMENSION_TYPES.has(contentType.toLowerCase().split(';')[0].trim());
+}
+
+function readUint16BE(b: Uint8Array, offset: number): number {
+  return b[offset] << 8 | b[offset + 1];
+}
+
+function readUint16LE(b: Uint8Array, offset: number): number {
+  return b[offset] | b[offset + 1] << 8;
+}
+
+function readUint24LE(b: Uint8Array, offset: number): number {
+  return b[offset] | b[offset + 1] << 8 | b[offset + 2] << 16;
+}
+
+function readUint32BE(b: Uint8Array, offset: number): number {
+  return (b[offset] << 24 | b[offset + 1] << 16 | b[offset + 2] << 8 | b[offset + 3]) >>> 0;
+}
+
+function ascii(b: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...b.subarray(offset, offset + length));
+}
+
+/**
+ * Find the frame size in a JPEG's segments
+ */
+function getJpegDimensions(b: Uint8Array): ImageDimensions | null {
+  let offset = 2;
+
+  while (offset + 9 <= b.length) {
+    if (b[offset] !== 0xFF) return null;  // Not at a marker - corrupt
+    const marker = b[offset + 1];
+
+    if (marker === 0xFF) {
+      offset++;  // Fill byte
+    } else if (JPEG_SOF_MARKERS.has(marker)) {
+      return { width: readUint16BE(b, offset + 7), height: readUint16BE(b, offset + 5) };
+    } else if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD8)) {
+      offset += 2;  // Standalone marker
+    } else if (marker === 0xD9 || marker === 0xDA) {
+      return null;  // End of image / start of scan before any frame header
+    } else {
+      offset += 2 + readUint16BE(b, offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the size and header length of the ISO BMFF box at `offset`
+ *
+ * @returns null if the box header is incomplete
+ */
+function readBox(b: Uint8Array, offset: number, end: number): { type: string; size: number; header: number } | null {
+  if (offset + 8 > end) return null;
+
+  const size = readUint32BE(b, offset);
+  const type = ascii(b, offset + 4, 4);
+
+  if (size === 1) {
+    // 64-bit size - boxes of 4GB+ are never inside the scanned head
+    if (offset + 16 > end) return null;
+    const high = readUint32BE(b, offset + 8);
+    return { type, size: high > 0 ? Infinity : readUint32BE(b, offset + 12), header: 16 };
+  }
+
+  return { type, size: size === 0 ? Infinity : size, header: 8 };
+}
+
+/**
+ * Find a child box by type path (e.g. meta > iprp > ipco)
+ *
+ * @returns Start and end of the box content, or null if not (yet) complete
+ */
+function findBox(b: Uint8Array, start: number, end: number, path: string[]): { start: number; end: number } | null {
+  let offset = start;
+
+  while (offset < end) {
+    const box = readBox(b, offset, end);
+    if (!box || box.size < box.header) return null;
+
+    if (box.type === path[0]) {
+      const boxEnd = offset + box.size;
+      if (boxEnd > b.length) return null;  // Not fully read yet
+      // meta is a full box: version and flags precede its children
+      const contentStart = offset + box.header + (box.type === 'meta' ? 4 : 0);
+      return path.length === 1
+        ? { start: contentStart, end: boxEnd }
+        : findBox(b, contentStart, boxEnd, path.slice(1));
+    }
+
+    offset += box.size;
+  }
+
+  return null;
+}
+
+/**
+ * Get the largest image spatial extent (ispe) of an AVIF/HEIF file
+ *
+ * A file can hold several images (grid tiles, alpha, thumbnails); the
+ * largest width and height bound what a decoder may allocate.
+ */
+function getHeifDimensions(b: Uint8Array): ImageDimensions | null {
+  const ipco = findBox(b, 0, b.length, ['meta', 'iprp', 'ipco']);
+  if (!ipco) return null;
+
+  let width = 0;
+  let height = 0;
+  let offset = ipco.start;
+
+  while (offset < ipco.end) {
+    const box = readBox(b, offset, ipco.end);
+    if (!box || box.size < box.header) break;
+
+    // ispe: version/flags (4), width (4), height (4)
+    if (box.type === 'ispe' && offset + box.header + 12 <= ipco.end) {
+      width = Math.max(width, readUint32BE(b, offset + box.header + 4));
+      height = Math.max(height, readUint32BE(b, offset + box.header + 8));
+    }
+
+    offset += box.size;
+  }
+
+  return width > 0 || height > 0 ? { width, height } : null;
+}
+
+/**
+ * Read image dimensions from the first bytes of a file
+ *
+ * @returns Dimensions, or null if the header is not (yet) complete or the
+ *          format is not parsed
+ */
+export function getImageDimensions(bytes: Uint8Array): ImageDimensions | null {
+  const b = bytes;
+
+  // PNG: signature, then IHDR with width and height
+  if (b.length >= 24 && ascii(b, 0, 8) === '\x89PNG\r\n\x1A\n' && ascii(b, 12, 4) === 'IHDR') {
+    return { width: readUint32BE(b, 16), height: readUint32BE(b, 20) };
+  }
+
+  // GIF: logical screen size
+  if (b.length >= 10 && (ascii(b, 0, 6) === 'GIF87a' || ascii(b, 0, 6) === 'GIF89a')) {
+    return { width: readUint16LE(b, 6), height: readUint16LE(b, 8) };
+  }
+
+  if (b.length >= 30 && ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 4) === 'WEBP') {
+    switch (ascii(b, 12, 4)) {
+      case 'VP8 ':
+        // Lossy: frame tag (3), start code (3), 14-bit width and height
+        return { width: readUint16LE(b, 26) & 0x3FFF, height: readUint16LE(b, 28) & 0x3FFF };
+      case 'VP8L': {
+        // Lossless: signature byte, then 14-bit width - 1 and height - 1
+        const bits = (b[21] | b[22] << 8 | b[23] << 16 | b[24] << 24) >>> 0;
+        return { width: (bits & 0x3FFF) + 1, height: (bits >>> 14 & 0x3FFF) + 1 };
+      }
+      case 'VP8X':
+        // Extended: 24-bit canvas width - 1 and height - 1
+        return { width: readUint24LE(b, 24) + 1, height: readUint24LE(b, 27) + 1 };
+    }
+    return null;
+  }
+
+  if (b[0] === 0xFF && b[1] === 0xD8 && b[2] === 0xFF) {
+    return getJpegDimensions(b);
+  }
+
+  if (b.length >= 8 && ascii(b, 4, 4) === 'ftyp') {
+    return getHeifDimensions(b);
+  }
+
+  return null;
+}
+
+/**
+ * Read an image's dimensions from the start of its body
+ *
+ * Reads until the header is found, at most DIMENSION_SCAN_LENGTH bytes;
+ * the returned body still contains everything.
+ */
+export async function readImageDimensions(stream: ReadableStream<Uint8Array>): Promise<DimensionResult> {
+  const { head, body } = await readHead(stream, DIMENSION_SCAN_LENGTH, bytes => getImageDimensions(bytes) !== null);
+  return { body, dimensions: getImageDimensions(head) };
+}
+
+/**
+ * Read the dimensions stored with a cached object (see storeInCacheStream)
+ *
+ * @returns Dimensions, or null for objects cached without them
+ */
+export function getStoredDimensions(object: R2Object): ImageDimensions | null {
+  const width = parseInt(object.customMetadata?.width || '', 10);
+  const height = parseInt(object.customMetadata?.height || '', 10);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Check image dimensions against the domain's limits
+ *
+ * @returns Description of the exceeded limit, or null if within limits
+ */
+export function getDimensionLimitError(dimensions: ImageDimensions, config: DomainConfig): string | null {
+  const { width, height } = dimensions;
+  const megapixels = width * height / 1_000_000;
+
+  if (config.maxImageWidth > 0 && width > config.maxImageWidth) {
+    return `width ${width}px exceeds ${config.maxImageWidth}px`;
+  }
+  if (config.maxImageHeight > 0 && height > config.maxImageHeight) {
+    return `height ${height}px exceeds ${config.maxImageHeight}px`;
+  }
+  if (config.maxImageMegapixels > 0 && megapixels > config.maxImageMegapixels) {
+    return `${megapixels.toFixed(1)} megapixels exceeds ${config.maxImageMegapixels}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,95 @@
+/**
+ * Per-domain configuration
+ *
+ * Behavior settings (size limit, timeouts, origin headers, freshness) default
+ * to the worker-wide env variables. A domain can override any of them with a
+ * versioned config record in ORIGINS_KV, stored under "config:{domain}" next
+ * to its DomainRecords (see DomainConfigRecord):
+ *
+ *   { "version": 1, "max_file_size": "2GB", "fetch_timeout": 60000, "cache_ttl": 3600 }
+ *
+ *   max_file_size     - overrides MAX_FILE_SIZE
+ *   fetch_timeout     - overrides FETCH_TIMEOUT
+ *   max_redirects     - overrides MAX_REDIRECTS
+ *   max_image_*       - override MAX_IMAGE_WIDTH / _HEIGHT / _MEGAPIXELS
+ *   origin_user_agent - overrides ORIGIN_USER_AGENT
+ *   forward_client_ip - overrides FORWARD_CLIENT_IP
+ *   cache_ttl         - overrides CACHE_TTL / CACHE_TTL_OVERRIDES
+ *   cache_ttl_source  - overrides CACHE_TTL_SOURCE
+ *   rate_limit_*      - override RATE_LIMIT_REQUESTS / _MISSES per scope, and _ACTION
+ *   cors_*, cross_origin_resource_policy, timing_allow_origin
+ *                     - override the CORS settings (see cors.ts)
+ *   query_forward     - overrides the domain's QUERY_FORWARD entry
+ *   query_cache_key   - overrides the domain's QUERY_CACHE_KEY entry
+ *   hotlink_*         - override the domain's HOTLINK_REFERERS / _ACTION entries
+ *
+ * The record is loaded by validateOrigin() and checked against the schema
+ * there; malformed records are ignored as a whole, never half-applied.
+ * Signing keys are secrets and stay in their own "signing:{domain}" record
+ * (see signing.ts), so config records can be managed without access to them.
+ */
+
+import type { Env, DomainConfig, DomainConfigRecord } from './types';
+import { getConfiguredTtl, parseTtlSetting } from './freshness';
+import { resolveRateLimits } from './rate-limit';
+import { resolveCorsPolicy } from './cors';
+import { isHotlinkAction } from './hotlink';
+import { getDomainSetting } from './validation';
+import { parseFileSize } from './utils';
+
+/** Defaults when neither the record nor env sets a value */
+const DEFAULT_MAX_FILE_SIZE = '500MB';
+const DEFAULT_FETCH_TIMEOUT = 30000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_IMAGE_WIDTH = 32768;
+const DEFAULT_MAX_IMAGE_HEIGHT = 32768;
+const DEFAULT_MAX_IMAGE_MEGAPIXELS = 100;
+
+/**
+ * Parse a non-negative numeric env setting ("0" = unlimited)
+ */
+function parseLimit(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Merge a domain's config record over the env defaults
+ *
+ * @param env - Worker environment (defaults)
+ * @param domain - Origin domain (for CACHE_TTL_OVERRIDES and the other per-domain env settings)
+ * @param record - Validated config record (from validateOrigin), if any
+ */
+export function resolveDomainConfig(
+  env: Env,
+  domain: string,
+  record?: DomainConfigRecord
+): DomainConfig {
+  const envTimeout = parseInt(env.FETCH_TIMEOUT || '', 10);
+  const envRedirects = parseInt(env.MAX_REDIRECTS || '', 10);
+  const recordTtl = record?.cache_ttl !== undefined ? parseTtlSetting(String(record.cache_ttl)) : undefined;
+  const envHotlinkAction = getDomainSetting(env.HOTLINK_ACTION, domain);
+
+  return {
+    maxFileSize: parseFileSize(record?.max_file_size || env.MAX_FILE_SIZE || DEFAULT_MAX_FILE_SIZE),
+    fetchTimeout: record?.fetch_timeout ?? (isNaN(envTimeout) ? DEFAULT_FETCH_TIMEOUT : envTimeout),
+    maxRedirects: record?.max_redirects ?? (isNaN(envRedirects) || envRedirects < 0 ? DEFAULT_MAX_REDIRECTS : envRedirects),
+    maxImageWidth: record?.max_image_width ?? parseLimit(env.MAX_IMAGE_WIDTH, DEFAULT_MAX_IMAGE_WIDTH),
+    maxImageHeight: record?.max_image_height ?? parseLimit(env.MAX_IMAGE_HEIGHT, DEFAULT_MAX_IMAGE_HEIGHT),
+    maxImageMegapixels: record?.max_image_megapixels ?? parseLimit(env.MAX_IMAGE_MEGAPIXELS, DEFAULT_MAX_IMAGE_MEGAPIXELS),
+    originUserAgent: record?.origin_user_agent || env.ORIGIN_USER_AGENT || null,
+    forwardClientIp: record?.forward_client_ip ?? env.FORWARD_CLIENT_IP === 'true',
+    cacheTtl: recordTtl !== undefined ? recordTtl : getConfiguredTtl(env, domain),
+    cacheTtlSource: record?.cache_ttl_source ?? (env.CACHE_TTL_SOURCE === 'origin' ? 'origin' : 'config'),
+    rateLimits: {
+      requests: resolveRateLimits(env.RATE_LIMIT_REQUESTS, record?.rate_limit_requests),
+      misses: resolveRateLimits(env.RATE_LIMIT_MISSES, record?.rate_limit_misses),
+    },
+    rateLimitAction: record?.rate_limit_action ?? (env.RATE_LIMIT_ACTION === 'redirect' ? 'redirect' : '429'),
+    cors: resolveCorsPolicy(env, domain, record),
+    queryForward: record?.query_forward ?? getDomainSetting(env.QUERY_FORWARD, domain) ?? null,
+    queryCacheKey: record?.query_cache_key ?? getDomainSetting(env.QUERY_CACHE_KEY, domain) ?? null,
+    hotlinkReferers: record?.hotlink_referers ?? getDomainSetting(env.HOTLINK_REFERERS, domain) ?? null,
+    hotlinkAction: record?.hotlink_action ?? (isHotlinkAction(envHotlinkAction) ? envHotlinkAction : 'redirect'),
+  };
+}
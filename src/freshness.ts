@@ -0,0 +1,325 @@
+/**
+ * Freshness model for cached objects
+ *
+ * By default every cached object is immutable (served for a year, never
+ * rechecked). Setting CACHE_TTL gives objects a freshness lifetime; once an
+ * object is older than its TTL it is still served, but the worker revalidates
+ * it against the origin in the background with a conditional request and
+ * rewrites the R2 object only if the origin copy changed.
+ *
+ * Configuration:
+ *   CACHE_TTL           - Default TTL in seconds, or "immutable" (default)
+ *   CACHE_TTL_OVERRIDES - Per-domain TTLs: "example.com=3600,*.example.org=immutable"
+ *   CACHE_TTL_SOURCE    - "config" (default) or "origin": derive TTL from the
+ *                         origin's Cache-Control / Expires, falling back to config
+ *
+ * A domain's KV config record can override all three (see domain-config.ts).
+ *
+ * Stale-if-error: when a refresh fails (timeout, 5xx, blocked), the previous
+ * R2 copy is served instead of redirecting, for up to STALE_IF_ERROR_MAX_AGE
+ * seconds past its expiry (default 86400, "0" disables). Immutable objects
+ * never expire, so they are always eligible.
+ *
+ * The TTL and the origin's validators (ETag, Last-Modified, Cache-Control)
+ * are stored in the object's R2 custom metadata at cache time.
+ *
+ * R2 cannot update metadata without rewriting the body, so a successful
+ * revalidation (304) is recorded as a marker in the Cache API instead.
+ * Markers are per data center: each location revalidates at most once per TTL.
+ * The time of the last successful revalidation is kept next to the marker,
+ * so staleness (for stale-if-error) counts from when the origin last
+ * confirmed the copy, not from when it was stored. A location that has not
+ * revalidated the object itself falls back to its upload time.
+ */
+
+import type { Env, DomainConfig } from './types';
+import { getDomainSetting } from './validation';
+
+/** Cache-Control for objects without a TTL (previous, default behavior) */
+export const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/** Bounds for origin-derived TTLs (seconds) */
+const MIN_ORIGIN_TTL = 60;
+const MAX_TTL = 31536000;
+
+/** Default stale-if-error limit: serve up to 1 day past expiry (seconds) */
+const DEFAULT_STALE_IF_ERROR = 86400;
+
+/** Synthetic host for Cache API keys - never fetched, only used as a key */
+const FRESHNESS_MARKER_BASE = 'https://freshness.imgpro.internal';
+
+/**
+ * Freshness information captured from an origin response
+ */
+export interface FreshnessInfo {
+  ttl: number | null;         // Seconds, null = immutable
+  etag?: string;              // Origin ETag (for If-None-Match)
+  lastModified?: string;      // Origin Last-Modified (for If-Modified-Since)
+  cacheControl?: string;      // Origin Cache-Control (informational)
+}
+
+/**
+ * Parse a TTL setting: seconds or "immutable"
+ *
+ * @returns seconds, null for immutable, undefined if not a valid setting
+ */
+export function parseTtlSetting(value: string | undefined): number | null | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'immutable') return null;
+
+  const seconds = parseInt(trimmed, 10);
+  if (isNaN(seconds) || seconds < 0) return undefined;
+
+  return Math.min(seconds, MAX_TTL);
+}
+
+/**
+ * Get the configured TTL for a domain
+ *
+ * CACHE_TTL_OVERRIDES is a per-domain setting (see getDomainSetting());
+ * an invalid override falls back to CACHE_TTL.
+ *
+ * @returns seconds, or null for immutable
+ */
+export function getConfiguredTtl(env: Env, domain: string): number | null {
+  const override = parseTtlSetting(getDomainSetting(env.CACHE_TTL_OVERRIDES, domain));
+  if (override !== undefined) return override;
+
+  const ttl = parseTtlSetting(env.CACHE_TTL);
+  return ttl === undefined ? null : ttl;
+}
+
+/**
+ * Derive a TTL from origin Cache-Control / Expires headers
+ *
+ * s-maxage wins over max-age (we are a shared cache). no-cache and
+ * no-store mean "always revalidate" - we still cache (the CDN's purpose
+ * is offloading bandwidth) but check back after the minimum TTL.
+ *
+ * @returns seconds, or undefined if the origin gave no freshness information
+ */
+function getOriginTtl(headers: Headers): number | undefined {
+  const cacheControl = (headers.get('Cache-Control') || '').toLowerCase();
+
+  if (/(^|,)\s*(no-cache|no-store)\b/.test(cacheControl)) {
+    return MIN_ORIGIN_TTL;
+  }
+
+  const sMaxAge = cacheControl.match(/(?:^|,)\s*s-maxage\s*=\s*"?(\d+)"?/);
+  const maxAge = cacheControl.match(/(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/);
+  const directive = sMaxAge || maxAge;
+  if (directive) {
+    return Math.min(Math.max(parseInt(directive[1], 10), MIN_ORIGIN_TTL), MAX_TTL);
+  }
+
+  const expires = headers.get('Expires');
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    const seconds = isNaN(expiresAt) ? 0 : Math.floor((expiresAt - Date.now()) / 1000);
+    return Math.min(Math.max(seconds, MIN_ORIGIN_TTL), MAX_TTL);
+  }
+
+  return undefined;
+}
+
+/**
+ * Capture freshness information from an origin response
+ *
+ * @param config - The domain's effective config (TTL and TTL source)
+ */
+export function getFreshnessFromOrigin(
+  config: DomainConfig,
+  response: Response
+): FreshnessInfo {
+  let ttl = config.cacheTtl;
+
+  if (config.cacheTtlSource === 'origin') {
+    const originTtl = getOriginTtl(response.headers);
+    if (originTtl !== undefined) {
+      ttl = originTtl;
+    }
+  }
+
+  return {
+    ttl,
+    etag: response.headers.get('ETag') || undefined,
+    lastModified: response.headers.get('Last-Modified') || undefined,
+    cacheControl: response.headers.get('Cache-Control') || undefined,
+  };
+}
+
+/**
+ * Convert freshness information to R2 custom metadata
+ */
+export function toFreshnessMetadata(info: FreshnessInfo): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (info.ttl !== null) metadata.ttl = info.ttl.toString();
+  if (info.etag) metadata.originEtag = info.etag;
+  if (info.lastModified) metadata.originLastModified = info.lastModified;
+  if (info.cacheControl) metadata.originCacheControl = info.cacheControl;
+  return metadata;
+}
+
+/**
+ * Read freshness information back from a cached object
+ */
+export function getObjectFreshness(object: R2Object): FreshnessInfo {
+  const metadata = object.customMetadata || {};
+  const ttl = metadata.ttl !== undefined ? parseInt(metadata.ttl, 10) : NaN;
+
+  return {
+    ttl: isNaN(ttl) ? null : ttl,
+    etag: metadata.originEtag,
+    lastModified: metadata.originLastModified,
+    cacheControl: metadata.originCacheControl,
+  };
+}
+
+/**
+ * Cache-Control header for a response with the given TTL
+ *
+ * Responses to signed URLs (see signing.ts) are private: a shared cache
+ * would keep serving them after the URL expires. Browsers may reuse them
+ * until the expiry at most.
+ *
+ * @param signedUntil - Expiry of the request's signed URL (Unix seconds)
+ */
+export function getCacheControlHeader(ttl: number | null, signedUntil?: number): string {
+  if (signedUntil !== undefined) {
+    const remaining = Math.max(0, signedUntil - Math.floor(Date.now() / 1000));
+    const maxAge = ttl === null ? remaining : Math.min(ttl, remaining);
+    return maxAge > 0 ? `private, max-age=${maxAge}` : 'private, no-store';
+  }
+
+  return ttl === null ? IMMUTABLE_CACHE_CONTROL : `public, max-age=${ttl}`;
+}
+
+/**
+ * Check if a cached object is past its TTL (based on when it was stored)
+ *
+ * A stale object may still have been revalidated recently - check
+ * hasFreshnessMarker() before revalidating.
+ */
+export function isObjectStale(object: R2Object, now: number = Date.now()): boolean {
+  const { ttl } = getObjectFreshness(object);
+  if (ttl === null) return false;
+
+  return now - object.uploaded.getTime() > ttl * 1000;
+}
+
+/**
+ * Seconds a cached object is past its expiry (0 if fresh or immutable)
+ *
+ * @param revalidatedAt - Last successful revalidation (see getLastRevalidation);
+ *                        the object's upload time is used if it is older or null
+ */
+export function getStaleness(
+  object: R2Object,
+  revalidatedAt: Date | null = null,
+  now: number = Date.now()
+): number {
+  const { ttl } = getObjectFreshness(object);
+  if (ttl === null) return 0;
+
+  const confirmedAt = Math.max(object.uploaded.getTime(), revalidatedAt?.getTime() ?? 0);
+  const expiresAt = confirmedAt + ttl * 1000;
+  return Math.max(0, Math.floor((now - expiresAt) / 1000));
+}
+
+/**
+ * Maximum staleness (seconds past expiry) for serving a copy on origin error
+ *
+ * @returns seconds, or 0 if stale-if-error is disabled
+ */
+export function getStaleIfErrorLimit(env: Env): number {
+  const limit = parseInt(env.STALE_IF_ERROR_MAX_AGE || '', 10);
+  return isNaN(limit) || limit < 0 ? DEFAULT_STALE_IF_ERROR : limit;
+}
+
+function getMarkerRequest(cacheKey: string): Request {
+  return new Request(`${FRESHNESS_MARKER_BASE}/${encodeURIComponent(cacheKey)}`);
+}
+
+function getRevalidationRequest(cacheKey: string): Request {
+  return new Request(`${FRESHNESS_MARKER_BASE}/revalidated/${encodeURIComponent(cacheKey)}`);
+}
+
+/**
+ * Check if the object was revalidated recently in this data center
+ */
+export async function hasFreshnessMarker(cacheKey: string): Promise<boolean> {
+  try {
+    return (await caches.default.match(getMarkerRequest(cacheKey))) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove the object's revalidation marker in this data center (on purge)
+ */
+export async function clearFreshnessMarker(cacheKey: string): Promise<void> {
+  await Promise.all([
+    caches.default.delete(getMarkerRequest(cacheKey)),
+    caches.default.delete(getRevalidationRequest(cacheKey)),
+  ]);
+}
+
+/**
+ * Record a successful revalidation (304, or unchanged validators)
+ *
+ * Marks the object fresh for another `ttl` seconds and remembers when the
+ * origin confirmed it - for as long as the copy may still be served stale.
+ */
+export async function recordRevalidation(env: Env, cacheKey: string, ttl: number): Promise<void> {
+  await setFreshnessMarker(cacheKey, ttl);
+
+  try {
+    await caches.default.put(
+      getRevalidationRequest(cacheKey),
+      new Response(new Date().toISOString(), {
+        headers: { 'Cache-Control': `max-age=${Math.max(ttl + getStaleIfErrorLimit(env), 1)}` },
+      })
+    );
+  } catch (error) {
+    console.error('Revalidation time store failed:', error);
+  }
+}
+
+/**
+ * Get when the origin last confirmed the object in this data center
+ *
+ * @returns Time of the last successful revalidation, or null if unknown
+ */
+export async function getLastRevalidation(cacheKey: string): Promise<Date | null> {
+  try {
+    const match = await caches.default.match(getRevalidationRequest(cacheKey));
+    if (!match) return null;
+
+    const time = new Date(await match.text());
+    return isNaN(time.getTime()) ? null : time;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record that the object is fresh for another `ttl` seconds
+ *
+ * Also used as a short lock while a revalidation is in flight, so
+ * concurrent hits on a stale object trigger only one origin request.
+ */
+export async function setFreshnessMarker(cacheKey: string, ttl: number): Promise<void> {
+  try {
+    await caches.default.put(
+      getMarkerRequest(cacheKey),
+      new Response(new Date().toISOString(), {
+        headers: { 'Cache-Control': `max-age=${Math.max(ttl, 1)}` },
+      })
+    );
+  } catch (error) {
+    console.error('Freshness marker store failed:', error);
+  }
+}
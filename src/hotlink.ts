@@ -0,0 +1,140 @@
+/**
+ * Hotlink protection
+ *
+ * An origin's own hotlink protection only ever sees cache misses - and the
+ * worker forwards the client's Referer (see FORWARDED_HEADERS in origin.ts)
+ * so those pass. Once cached, any site could embed the media through the
+ * CDN. Domains can therefore restrict which pages may embed their media:
+ *
+ *   HOTLINK_REFERERS - Per-domain allowed referers:
+ *                      "example.com=none|example.com|*.example.com"
+ *                      Patterns use matchesDomainPattern() semantics; "none"
+ *                      allows requests without Referer/Origin (direct visits,
+ *                      apps, privacy-stripped referers). Domains without an
+ *                      entry are not protected.
+ *   HOTLINK_ACTION   - Per-domain action for rejected requests:
+ *                      "example.com=403,*.example.org=placeholder"
+ *                      redirect (default) - 302 to the origin URL, so the
+ *                                           origin's own policy decides
+ *                      403                - Forbidden
+ *                      placeholder        - 1x1 transparent GIF
+ *
+ * Both can be overridden per domain in its KV config record (see
+ * domain-config.ts). The Referer host is checked, falling back to the Origin
+ * header when the browser sends no Referer. Checked on cache hits as well as
+ * misses, before anything is served.
+ */
+
+import type { DomainConfig, HotlinkAction } from './types';
+import { matchesDomainPattern } from './validation';
+import { errorResponse, getMediaSecurityHeaders } from './utils';
+
+/** Referer pattern that allows requests without Referer / Origin */
+const EMPTY_REFERER_PATTERN = 'none';
+
+/** 1x1 transparent GIF served by the "placeholder" action */
+const PLACEHOLDER_GIF = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  char => char.charCodeAt(0)
+);
+
+const HOTLINK_ACTIONS: HotlinkAction[] = ['redirect', '403', 'placeholder'];
+
+/**
+ * Hotlink check result
+ */
+export interface HotlinkCheckResult {
+  allowed: boolean;
+  referer: string | null;   // Host that was checked, null if none was sent
+  action: HotlinkAction;
+}
+
+/**
+ * Get the host of the page that embedded the request
+ *
+ * @returns Lowercase host, "" if the header is unparseable, null if neither was sent
+ */
+function getRefererHost(request: Request): string | null {
+  const referer = request.headers.get('Referer') || request.headers.get('Origin');
+  if (!referer || referer === 'null') return null;
+
+  try {
+    return new URL(referer).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Check if a value is a hotlink action
+ */
+export function isHotlinkAction(value: unknown): value is HotlinkAction {
+  return HOTLINK_ACTIONS.includes(value as HotlinkAction);
+}
+
+/**
+ * Check if a value is an allowed-referers setting ("none|example.com|*.example.com")
+ */
+export function isHotlinkReferers(value: unknown): value is string {
+  return typeof value === 'string' && !/[,=]/.test(value) &&
+         value.split('|').some(pattern => pattern.trim() !== '');
+}
+
+/**
+ * Check a request against the domain's hotlink policy
+ */
+export function checkHotlink(request: Request, config: DomainConfig): HotlinkCheckResult {
+  const referer = getRefererHost(request);
+  if (config.hotlinkReferers === null) {
+    return { allowed: true, referer, action: 'redirect' };
+  }
+
+  const patterns = config.hotlinkReferers.split('|').map(pattern => pattern.trim()).filter(pattern => pattern !== '');
+  const allowed = referer === null
+    ? patterns.includes(EMPTY_REFERER_PATTERN)
+    : referer !== '' && patterns.some(pattern =>
+        pattern !== EMPTY_REFERER_PATTERN && matchesDomainPattern(referer, pattern)
+      );
+
+  return { allowed, referer, action: config.hotlinkAction };
+}
+
+/**
+ * Build the response for a rejected (hotlinked) request
+ *
+ * Never cacheable: the same URL is served normally to allowed referers.
+ *
+ * @param corsHeaders - The domain's CORS headers (see getDomainCORSHeaders)
+ */
+export function createHotlinkResponse(
+  action: HotlinkAction,
+  sourceUrl: string,
+  corsHeaders: Record<string, string>
+): Response {
+  switch (action) {
+    case '403':
+      return errorResponse('Hotlinking not allowed', 403, corsHeaders);
+    case 'placeholder':
+      return new Response(PLACEHOLDER_GIF, {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/gif',
+          'Content-Length': PLACEHOLDER_GIF.byteLength.toString(),
+          'Cache-Control': 'no-store',
+          'X-ImgPro-Status': 'hotlink',
+          ...getMediaSecurityHeaders(),
+          ...corsHeaders,
+        },
+      });
+    case 'redirect':
+      return new Response(null, {
+        status: 302,
+        headers: {
+          'Location': sourceUrl,
+          'Cache-Control': 'no-store, no-cache, must-revalidate',
+          'X-ImgPro-Status': 'redirect',
+          ...corsHeaders,
+        },
+      });
+  }
+}
@@ -14,38 +14,110 @@
  * Hard errors (400/403):
  * - Invalid domains (IPs, internal hostnames) - security
  * - SSRF redirect attempts - security
+ * - Missing, invalid or expired signatures on signed-URL domains - security
  *
  * No separate R2 public bucket domain needed - the worker IS the CDN.
  *
  * @version 1.3.0
  */
 
-import type { Env, LogEntry } from './types';
-import { parseUrl, validateOrigin, isImageContentType, isMediaContentType, validateUrlForFetch } from './validation';
+import type { Env, LogEntry, DomainConfig } from './types';
+import {
+  parseUrl,
+  withOutputFormat,
+  validateOrigin,
+  isImageContentType,
+  isMediaContentType,
+  isManifestContentType,
+  isManifestPath,
+  getEffectiveContentType,
+  validateUrlForFetch,
+} from './validation';
 import { fetchMediaFromOrigin, validateResponseSize, createSizeLimitedStream } from './origin';
+import type { FetchResult } from './origin';
 import {
   getFromCache,
   getFromCacheWithRange,
   getCacheHead,
   handleConditionalRequest,
   storeInCacheStream,
+  storeVariantInCache,
+  isVariantCurrent,
+  getMultipartRangeBody,
 } from './cache';
-import { parseRangeHeader, buildContentRangeHeader } from './range';
+import { parseRangeSet, buildContentRangeHeader } from './range';
+import { isRangeConditionSatisfied } from './conditional';
+import {
+  transformImage,
+  isTransformableContentType,
+  isFormatNegotiable,
+  negotiateOutputFormat,
+  exceedsTransformBudget,
+  MAX_TRANSFORM_SOURCE_SIZE,
+} from './transform';
+import { rewriteManifestResponse } from './manifest';
 import { createHtmlViewer } from './viewer';
 import { createStatsResponse, createLogger } from './analytics';
-import { errorResponse, getCORSHeaders, formatBytes, parseFileSize, VERSION } from './utils';
+import { errorResponse, getCORSHeaders, getMediaSecurityHeaders, formatBytes, VERSION } from './utils';
 import { trackUsage } from './usage';
+import { validateSignature } from './signing';
+import { checkHotlink, createHotlinkResponse } from './hotlink';
+import { resolveDomainConfig } from './domain-config';
+import { checkRateLimit, createRateLimitResponse } from './rate-limit';
+import { checkCircuit, recordOriginOutcome, getFetchErrorReason, getResponseOutcome, handleOriginHealthRequest } from './circuit';
+import { coalesceMiss, releaseFillLease, trackFillProgress } from './coalesce';
+import { sniffContent } from './sniff';
+import { isSvgContentType, sanitizeSvgResponse } from './svg';
+import { getDomainCORSHeaders, variesByOrigin, createPreflightResponse } from './cors';
+import { hasDimensionHeader, readImageDimensions, getDimensionLimitError, getStoredDimensions } from './dimensions';
+import type { ImageDimensions } from './dimensions';
+import type { FillLease } from './coalesce';
+import { handlePurgeRequest, handleBulkPurge, handlePrefixPurge } from './purge';
+import { getNegativeCacheEntry, recordNegativeResult, clearNegativeCacheEntry } from './negative-cache';
+import { fillCacheInBackground, revalidateCachedObject, parseContentRangeTotal } from './cache-fill';
+import {
+  getFreshnessFromOrigin,
+  getObjectFreshness,
+  getCacheControlHeader,
+  isObjectStale,
+  hasFreshnessMarker,
+  getStaleness,
+  getStaleIfErrorLimit,
+  getLastRevalidation,
+} from './freshness';
 
 
 // Export Durable Object for usage tracking
 export { SiteUsageTracker } from './usage-tracker';
 
+// Export Durable Object for rate limiting
+export { RateLimiter } from './rate-limiter';
+
+// Export Durable Object for origin circuit breaking
+export { OriginCircuitBreaker } from './circuit-breaker';
+
+// Export Durable Object for cache miss coalescing
+export { MissCoalescer } from './miss-coalescer';
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
-    // CORS preflight
+    // CORS preflight: media paths are answered with their domain's CORS policy
+    // (see cors.ts), everything else (admin, stats) with the default policy
     if (request.method === 'OPTIONS') {
+      if (!url.pathname.startsWith('/_admin/')) {
+        try {
+          const parsed = parseUrl(url, env);
+          const validation = await validateOrigin(parsed.domain, env);
+          if (validation.allowed) {
+            return createPreflightResponse(request, resolveDomainConfig(env, parsed.domain, validation.domain_config).cors);
+          }
+        } catch {
+          // Not a media URL
+        }
+      }
+
       return new Response(null, {
         status: 204,
         headers: getCORSHeaders(),
@@ -72,9 +144,48 @@ export default {
       return createStatsResponse(env);
     }
 
+    // Bulk purge endpoint (authenticated)
+    if (url.pathname === '/_admin/purge') {
+      if (request.method !== 'POST') {
+        return errorResponse('Method not allowed', 405);
+      }
+      return handleBulkPurge(request, env);
+    }
+
+    // Prefix / whole-domain purge endpoint (authenticated, resumable)
+    if (url.pathname === '/_admin/purge-prefix') {
+      if (request.method !== 'POST') {
+        return errorResponse('Method not allowed', 405);
+      }
+      return handlePrefixPurge(request, env);
+    }
+
+    // Origin health endpoint: circuit breaker state / reset (authenticated)
+    if (url.pathname.startsWith('/_admin/origins/')) {
+      return handleOriginHealthRequest(request, env, decodeURIComponent(url.pathname.slice('/_admin/origins/'.length)));
+    }
+
+    // Held while this request fetches an object other misses are waiting for
+    let fillLease: FillLease | null = null;
+
+    // The domain's effective config once resolved (for the error redirect below)
+    let resolvedConfig: DomainConfig | null = null;
+
     try {
       // Parse URL: /example.com/wp-content/uploads/photo.jpg
-      const parsed = parseUrl(url);
+      let parsed = parseUrl(url, env);
+
+      // Explicit transform parameters (a negotiated format alone does not count)
+      const hasTransformParams = parsed.transform !== null;
+
+      // Automatic format: serve JPEG/PNG as AVIF or WebP when the browser accepts it
+      const formatNegotiable = isFormatNegotiable(parsed, env);
+      if (formatNegotiable) {
+        const outputFormat = negotiateOutputFormat(request.headers.get('Accept'), env);
+        if (outputFormat) {
+          parsed = withOutputFormat(parsed, outputFormat);
+        }
+      }
 
       // Workflow logs for HTML viewer
       const logs: LogEntry[] = [];
@@ -83,10 +194,9 @@ export default {
 
       addLog('Request received', `${request.method} ${parsed.domain}${parsed.path}`);
 
-      // DELETE functionality disabled - will be implemented with proper authentication later
-      // See issue W-03/W-11 in security audit
+      // DELETE = authenticated purge of this object (see purge.ts)
       if (request.method === 'DELETE') {
-        return errorResponse('DELETE method not currently supported', 405);
+        return handlePurgeRequest(request, env, parsed);
       }
 
       // Only GET and HEAD requests beyond this point
@@ -96,6 +206,24 @@ export default {
 
       const isHeadRequest = request.method === 'HEAD';
 
+      // Signed URLs: domains with signing keys reject unsigned or expired
+      // links before anything else (see signing.ts)
+      const signature = await validateSignature(url, parsed.domain, parsed.path, env);
+      if (!signature.valid) {
+        addLog('Signature rejected', signature.reason);
+        // Under the domain's CORS policy, so scripts can tell an expired link from a network error
+        const signatureValidation = await validateOrigin(parsed.domain, env);
+        const signatureConfig = resolveDomainConfig(env, parsed.domain, signatureValidation.domain_config);
+        return errorResponse(
+          signature.reason === 'expired' ? 'URL expired' : 'Invalid signature',
+          403,
+          getDomainCORSHeaders(request, signatureConfig.cors)
+        );
+      }
+      if (signature.keyId) {
+        addLog('Signature valid', `key: ${signature.keyId}`);
+      }
+
       // Check for Range header early - determines our cache strategy
       const rangeHeader = request.headers.get('Range');
 
@@ -111,7 +239,7 @@ export default {
         }
       }
       // Only consider it a valid standard range if start <= end
-      // Invalid ranges like bytes=100-50 should fall through to parseRangeHeader
+      // Invalid ranges like bytes=100-50 should fall through to parseRangeSet
       // which will return null and trigger a proper 416 response
       const isStandardRange = standardRangeStart !== null &&
                               standardRangeEnd !== null &&
@@ -126,17 +254,19 @@ export default {
       // For standard range requests: fetch HEAD (metadata) AND range data in parallel
       // For full-file ranges (bytes=0-): fetch full object (Safari video probe)
       // For other range requests: just HEAD (then fetch range after)
+      // For image transformations: HEAD of the original, plus the cached variant
       // For full requests: get the full object
-      const [validation, cacheResult, rangeData] = await Promise.all([
-        validateOrigin(parsed.domain, env),
+      // The request rate limit is counted as soon as the domain's config is known
+      const clientIp = request.headers.get('cf-connecting-ip');
+      const lookupCache = () => Promise.all([
         parsed.forceReprocess
           ? Promise.resolve(null)
-          : (isHeadRequest || (rangeHeader && !isFullFileRange))
-            ? getCacheHead(env, parsed.cacheKey)  // HEAD or partial range: metadata only
+          : (isHeadRequest || parsed.transform || (rangeHeader && !isFullFileRange))
+            ? getCacheHead(env, parsed.cacheKey)  // HEAD, transform or partial range: metadata only
             : getFromCache(env, parsed.cacheKey), // Full GET request or bytes=0-: get full object
         // For standard ranges (GET only), also fetch the range data in parallel
         // Skip for HEAD requests - they don't need the actual range data
-        (parsed.forceReprocess || isHeadRequest || !isStandardRange)
+        (parsed.forceReprocess || isHeadRequest || parsed.transform || !isStandardRange)
           ? Promise.resolve(null)
           : getFromCacheWithRange(env, parsed.cacheKey, {
               start: standardRangeStart!,
@@ -144,8 +274,39 @@ export default {
               length: standardRangeEnd! - standardRangeStart! + 1,
               isPartial: true,
             }),
+        (parsed.forceReprocess || !parsed.variantKey)
+          ? Promise.resolve(null)
+          : isHeadRequest
+            ? getCacheHead(env, parsed.variantKey)
+            : getFromCache(env, parsed.variantKey),
+      ]);
+      const validationPromise = validateOrigin(parsed.domain, env);
+      const [validation, cacheLookups, requestLimit] = await Promise.all([
+        validationPromise,
+        lookupCache(),
+        validationPromise.then(result => result.allowed
+          ? checkRateLimit(
+              env,
+              resolveDomainConfig(env, parsed.domain, result.domain_config).rateLimits.requests,
+              'requests',
+              parsed.domain,
+              clientIp
+            )
+          : null),
       ]);
 
+      let [cacheResult, rangeData, variantResult] = cacheLookups;
+
+      // Bodies of the lookups above, when the request ends without serving them
+      const cancelCacheLookups = async () => {
+        const objects: (R2Object | R2ObjectBody | null)[] = [cacheResult, rangeData, variantResult];
+        for (const object of objects) {
+          if (object && 'body' in object) {
+            await object.body.cancel();
+          }
+        }
+      };
+
       addLog('Origin validation', `${validation.reason} (source: ${validation.source})`);
 
       if (!validation.allowed) {
@@ -165,6 +326,125 @@ export default {
         });
       }
 
+      // Effective settings for this domain: KV config record merged over env defaults
+      const domainConfig = resolveDomainConfig(env, parsed.domain, validation.domain_config);
+      resolvedConfig = domainConfig;
+      if (validation.domain_config) {
+        addLog('Domain config', `version ${validation.domain_config.version} (KV)`);
+
+        // Query rules may come from the record: if they change the cache key,
+        // the lookups above were for another object
+        let configured = parseUrl(url, env, domainConfig);
+        if (parsed.transform?.format) {
+          configured = withOutputFormat(configured, parsed.transform.format);
+        }
+        const keyChanged = configured.cacheKey !== parsed.cacheKey;
+        parsed = configured;
+        if (keyChanged) {
+          addLog('Query rules', `cache key ${parsed.cacheKey} (KV)`);
+          await cancelCacheLookups();
+          [cacheResult, rangeData, variantResult] = await lookupCache();
+        }
+      }
+
+      // CORS headers under the domain's policy (see cors.ts). Every response that
+      // could differ by Accept (automatic format) or Origin says so, for downstream caches.
+      const corsHeaders = getDomainCORSHeaders(request, domainConfig.cors);
+      const vary = [
+        ...(formatNegotiable ? ['Accept'] : []),
+        ...(variesByOrigin(domainConfig.cors) ? ['Origin'] : []),
+      ];
+      const varyHeaders: Record<string, string> = vary.length > 0 ? { 'Vary': vary.join(', ') } : {};
+
+      // Hotlink protection: checked before anything is served, so hits are covered too
+      const hotlink = checkHotlink(request, domainConfig);
+      if (!hotlink.allowed) {
+        addLog('Hotlink rejected', `Referer: ${hotlink.referer ?? 'none'}, action: ${hotlink.action}`);
+        await cancelCacheLookups();
+        return createHotlinkResponse(hotlink.action, parsed.sourceUrl, corsHeaders);
+      }
+
+      if (requestLimit && !requestLimit.allowed) {
+        addLog('Rate limited', `${requestLimit.scope} request budget, retry after ${requestLimit.retryAfter}s`);
+        await cancelCacheLookups();
+        return createRateLimitResponse(requestLimit, domainConfig.rateLimitAction, parsed.sourceUrl, corsHeaders);
+      }
+
+      // Create redirect validator that checks against our allowlist
+      // (used by origin fetches on miss, background fill and revalidation)
+      const validateRedirect = async (finalUrl: string): Promise<boolean> => {
+        const urlValidation = validateUrlForFetch(finalUrl);
+        if (!urlValidation.valid || !urlValidation.domain) {
+          return false;
+        }
+
+        // Check if the redirected domain is also allowed
+        const redirectValidation = await validateOrigin(urlValidation.domain, env);
+        return redirectValidation.allowed;
+      };
+
+      // Response headers for a cached variant of a transformed image
+      // Range is not supported for variants (RFC 9110 allows ignoring it)
+      const getVariantHeaders = (variant: R2Object): Record<string, string> => ({
+        'Content-Type': variant.httpMetadata?.contentType || 'application/octet-stream',
+        'Content-Length': variant.size.toString(),
+        'Cache-Control': getCacheControlHeader(getObjectFreshness(variant).ttl, signature.expiresAt),
+        'ETag': variant.httpEtag,
+        'Last-Modified': variant.uploaded.toUTCString(),
+        'X-ImgPro-Status': 'hit',
+        'X-ImgPro-Cached-At': variant.customMetadata?.cachedAt || '',
+        ...varyHeaders,
+        ...getMediaSecurityHeaders(),
+        ...corsHeaders,
+      });
+
+      // Transform an original image, store the variant and serve it
+      // Returns null if the transformation failed (caller serves the original)
+      const serveTransformed = async (
+        source: ArrayBuffer,
+        sourceContentType: string,
+        ttl: number | null,
+        cacheHit: boolean,
+        originalStored: Promise<void> = Promise.resolve()
+      ): Promise<Response | null> => {
+        if (!parsed.transform || !parsed.variantKey) return null;
+        const variantKey = parsed.variantKey;
+
+        let variant;
+        try {
+          variant = await transformImage(source, sourceContentType, parsed.transform);
+        } catch (error) {
+          addLog('Transform failed', `${error instanceof Error ? error.message : error} - serving original`);
+          return null;
+        }
+
+        addLog('Transformed', `${variant.width}x${variant.height} ${variant.contentType}, ${formatBytes(variant.data.byteLength)}`);
+
+        // Store after the original: a variant older than its original is obsolete.
+        // Waiting requests are woken once the variant has landed (see coalesce.ts)
+        const variantStored = originalStored
+          .then(() => storeVariantInCache(env, variantKey, variant, parsed.sourceUrl, parsed.domain, ttl));
+        ctx.waitUntil(variantStored.catch(e => {
+          console.error('Failed to store variant:', e);
+        }));
+        releaseFillLease(env, ctx, fillLease, variantStored);
+
+        trackUsage(env, ctx, parsed.domain, cacheHit, validation.domain_records);
+
+        return new Response(variant.data, {
+          status: 200,
+          headers: {
+            'Content-Type': variant.contentType,
+            'Content-Length': variant.data.byteLength.toString(),
+            'Cache-Control': getCacheControlHeader(ttl, signature.expiresAt),
+            'X-ImgPro-Status': cacheHit ? 'hit' : 'miss',
+            ...varyHeaders,
+            ...getMediaSecurityHeaders(),
+            ...corsHeaders,
+          },
+        });
+      };
+
       // Handle HEAD requests - only serve from cache, don't fetch from origin
       // HEAD requests are used to check metadata without downloading the body
       if (isHeadRequest) {
@@ -180,11 +460,45 @@ export default {
               'Location': parsed.sourceUrl,
               'Cache-Control': 'no-store, no-cache, must-revalidate',
               'X-ImgPro-Status': 'redirect',
-              ...getCORSHeaders(),
+              ...corsHeaders,
             },
           });
         }
 
+        // Transformed image: answer from a current cached variant. Explicit
+        // transform parameters describe a different image than the original;
+        // a negotiated format alone falls back to the original's metadata.
+        if (parsed.transform) {
+          if (variantResult && isVariantCurrent(variantResult, cacheResult)) {
+            const conditionalResponse = handleConditionalRequest(request, variantResult, { ...varyHeaders, ...corsHeaders }, signature.expiresAt);
+            if (conditionalResponse) {
+              addLog('Conditional request', `${conditionalResponse.status}`);
+              return conditionalResponse;
+            }
+
+            addLog('HEAD variant hit', `${variantResult.size} bytes`);
+            return new Response(null, {
+              status: 200,
+              headers: getVariantHeaders(variantResult),
+            });
+          }
+
+          if (hasTransformParams) {
+            addLog('HEAD variant miss', 'Redirecting to origin');
+            return new Response(null, {
+              status: 302,
+              headers: {
+                'Location': parsed.sourceUrl,
+                'Cache-Control': 'no-store, no-cache, must-revalidate',
+                'X-ImgPro-Status': 'redirect',
+                ...corsHeaders,
+              },
+            });
+          }
+
+          addLog('HEAD variant miss', 'Automatic format only - answering from the original');
+        }
+
         // Get cache metadata (if not already fetched above)
         const headResult = cacheResult || await getCacheHead(env, parsed.cacheKey);
 
@@ -201,11 +515,18 @@ export default {
                 'Location': parsed.sourceUrl,
                 'Cache-Control': 'no-store, no-cache, must-revalidate',
                 'X-ImgPro-Status': 'redirect',
-                ...getCORSHeaders(),
+                ...corsHeaders,
               },
             });
           }
 
+          // Conditional HEAD (If-None-Match, If-Modified-Since, If-Match, ...)
+          const conditionalResponse = handleConditionalRequest(request, headResult, { ...varyHeaders, ...corsHeaders }, signature.expiresAt);
+          if (conditionalResponse) {
+            addLog('Conditional request', `${conditionalResponse.status}`);
+            return conditionalResponse;
+          }
+
           // Return HEAD response with metadata
           addLog('HEAD cache hit', `${headResult.size} bytes`);
           return new Response(null, {
@@ -214,12 +535,14 @@ export default {
               'Content-Type': headResult.httpMetadata?.contentType || 'application/octet-stream',
               'Content-Length': headResult.size.toString(),
               'Accept-Ranges': 'bytes',
-              'ETag': headResult.etag,
+              'ETag': headResult.httpEtag,
               'Last-Modified': headResult.uploaded.toUTCString(),
-              'Cache-Control': 'public, max-age=31536000, immutable',
+              'Cache-Control': getCacheControlHeader(getObjectFreshness(headResult).ttl, signature.expiresAt),
               'X-ImgPro-Status': 'hit',
               'X-ImgPro-Cached-At': headResult.customMetadata?.cachedAt || '',
-              ...getCORSHeaders(),
+              ...varyHeaders,
+              ...getMediaSecurityHeaders(),
+              ...corsHeaders,
             },
           });
         }
@@ -233,11 +556,149 @@ export default {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
-            ...getCORSHeaders(),
+            ...corsHeaders,
           },
         });
       }
 
+      // Stale-if-error: if the origin fails while we still hold a previous copy
+      // (e.g. a ?force=1 refresh), serve that copy instead of redirecting
+      const serveStaleCopy = async (reason: string): Promise<Response | null> => {
+        const maxStale = getStaleIfErrorLimit(env);
+        if (maxStale === 0) return null;
+
+        const [staleObject, revalidatedAt] = await Promise.all([
+          getFromCache(env, parsed.cacheKey),
+          getLastRevalidation(parsed.cacheKey),
+        ]);
+        if (!staleObject) return null;
+
+        // Counted from the last successful revalidation, not the upload (see freshness.ts)
+        const staleness = getStaleness(staleObject, revalidatedAt);
+        if (staleness > maxStale) {
+          addLog('Stale copy too old', `${staleness}s past expiry (max ${maxStale}s)`);
+          await staleObject.body.cancel();
+          return null;
+        }
+
+        addLog('Serving stale', `${reason} - cached copy ${staleness}s past expiry`);
+        trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+
+        return new Response(staleObject.body, {
+          status: 200,
+          headers: {
+            'Content-Type': staleObject.httpMetadata?.contentType || 'application/octet-stream',
+            'Content-Length': staleObject.size.toString(),
+            'Accept-Ranges': 'bytes',
+            // Downstream caches must come back soon - the origin may have recovered
+            'Cache-Control': signature.expiresAt !== undefined ? 'private, no-cache' : 'no-cache',
+            'ETag': staleObject.httpEtag,
+            'Last-Modified': staleObject.uploaded.toUTCString(),
+            'X-ImgPro-Status': 'stale',
+            'X-ImgPro-Cached-At': staleObject.customMetadata?.cachedAt || '',
+            ...varyHeaders,
+            ...getMediaSecurityHeaders(),
+            ...corsHeaders,
+          },
+        });
+      };
+
+      // A miss: cheap rejections run before coalescing and the origin fetch
+      if (!cacheResult) {
+        // A variant is only served next to its original
+        if (variantResult) {
+          await (variantResult as R2ObjectBody).body.cancel();
+          variantResult = null;
+        }
+
+        // Negative cache: origin recently refused or 404'd this key (or blocked the
+        // whole domain) - redirect immediately instead of hammering it again.
+        // Force reprocess bypasses this so a fixed origin can be re-checked.
+        if (!parsed.forceReprocess) {
+          const negativeEntry = await getNegativeCacheEntry(parsed.cacheKey, parsed.domain);
+          if (negativeEntry) {
+            addLog('Negative cache hit', `${negativeEntry.reason} (${negativeEntry.scope}) until ${negativeEntry.expiresAt}`);
+            return new Response(null, {
+              status: 302,
+              headers: {
+                'Location': parsed.sourceUrl,
+                'Cache-Control': 'no-store, no-cache, must-revalidate',
+                'X-ImgPro-Status': 'redirect',
+                'X-ImgPro-Redirect-Reason': 'negative-cache',
+                ...corsHeaders,
+              },
+            });
+          }
+        }
+
+        // Miss budget: limits origin fetches (and R2 writes) per client and per domain
+        const missLimit = await checkRateLimit(env, domainConfig.rateLimits.misses, 'misses', parsed.domain, clientIp);
+        if (!missLimit.allowed) {
+          addLog('Rate limited', `${missLimit.scope} miss budget, retry after ${missLimit.retryAfter}s`);
+          return createRateLimitResponse(missLimit, domainConfig.rateLimitAction, parsed.sourceUrl, corsHeaders);
+        }
+      }
+
+      // Miss coalescing: concurrent misses for the same object wait while one leader
+      // fetches and stores it, then are served from R2 (see coalesce.ts). Forced
+      // refetches and ranged misses (proxied from origin) fetch on their own.
+      if (!cacheResult && !parsed.forceReprocess && (!rangeHeader || isFullFileRange || parsed.transform)) {
+        const coalesced = await coalesceMiss(env, parsed.cacheKey, domainConfig.fetchTimeout);
+
+        if (coalesced.role === 'leader') {
+          fillLease = coalesced.lease;
+          addLog('Coalescing', 'Leader - fetching from origin');
+        } else if (coalesced.role === 'follower') {
+          addLog('Coalescing', `Waited for leader: ${coalesced.outcome}`);
+
+          if (coalesced.outcome !== 'stored') {
+            return new Response(null, {
+              status: 302,
+              headers: {
+                'Location': parsed.sourceUrl,
+                'Cache-Control': 'no-store, no-cache, must-revalidate',
+                'X-ImgPro-Status': 'redirect',
+                'X-ImgPro-Redirect-Reason': 'coalesced',
+                ...corsHeaders,
+              },
+            });
+          }
+
+          // Leader stored the object: read it (and any variant) again
+          [cacheResult, variantResult] = await Promise.all([
+            parsed.transform ? getCacheHead(env, parsed.cacheKey) : getFromCache(env, parsed.cacheKey),
+            parsed.variantKey ? getFromCache(env, parsed.variantKey) : Promise.resolve(null),
+          ]);
+        }
+      }
+
+      // Circuit breaker: origin keeps failing - redirect now instead of waiting
+      // for another timeout. After the cooldown, one request probes the origin.
+      // Checked after coalescing, by the request that actually fetches, so the
+      // probe's outcome is always recorded (followers never hold the probe).
+      if (!cacheResult) {
+        const circuit = await checkCircuit(env, parsed.domain, domainConfig.fetchTimeout);
+        if (!circuit.allowed) {
+          const staleResponse = await serveStaleCopy(`circuit ${circuit.state}`);
+          if (staleResponse) return staleResponse;
+
+          addLog('Circuit open', `origin failing, next probe in ${circuit.retryAfter}s - redirecting to origin`);
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              'X-ImgPro-Redirect-Reason': 'circuit-open',
+              ...corsHeaders,
+            },
+          });
+        }
+        if (circuit.probe) {
+          addLog('Circuit half-open', 'probing origin');
+        }
+      }
+
       // Check cache result (GET requests only from here)
       if (cacheResult) {
         addLog('Cache HIT', parsed.cacheKey);
@@ -261,36 +722,147 @@ export default {
               'Cache-Control': 'no-store, no-cache, must-revalidate',
               'X-ImgPro-Status': 'redirect',
               'X-ImgPro-Reason': 'invalid_cached_content',
-              ...getCORSHeaders(),
+              ...corsHeaders,
             },
           });
         }
 
-        // Check ETag for conditional request (304 Not Modified)
-        const conditionalResponse = handleConditionalRequest(request, cacheResult.etag);
+        // Past its TTL: keep serving the cached copy, revalidate with origin in background
+        // (freshness marker = already revalidated recently in this location)
+        if (isObjectStale(cacheResult) && !await hasFreshnessMarker(parsed.cacheKey)) {
+          addLog('Stale', 'Revalidating with origin in background');
+          ctx.waitUntil(revalidateCachedObject(
+            env,
+            parsed,
+            cacheResult,
+            request,
+            domainConfig,
+            validateRedirect
+          ));
+        }
+
+        const cacheControl = getCacheControlHeader(getObjectFreshness(cacheResult).ttl, signature.expiresAt);
+
+        // Image transformation: serve the cached variant, or create it from the original
+        if (parsed.transform && parsed.variantKey) {
+          const serveCachedVariant = async (variantObject: R2ObjectBody): Promise<Response> => {
+            addLog('Variant HIT', variantObject.key);
+
+            const conditionalResponse = handleConditionalRequest(request, variantObject, { ...varyHeaders, ...corsHeaders }, signature.expiresAt);
+            if (conditionalResponse) {
+              addLog('Conditional request', `${conditionalResponse.status}`);
+              await variantObject.body.cancel();
+              if (conditionalResponse.status === 304) {
+                trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+              }
+              return conditionalResponse;
+            }
+
+            trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+            return new Response(variantObject.body, {
+              status: 200,
+              headers: getVariantHeaders(variantObject),
+            });
+          };
+
+          // GET requests fetch the variant with its body
+          const variantObject = variantResult as R2ObjectBody | null;
+
+          if (variantObject && isVariantCurrent(variantObject, cacheResult)) {
+            return serveCachedVariant(variantObject);
+          }
+
+          if (variantObject) {
+            addLog('Variant outdated', 'Original changed - transforming again');
+            await variantObject.body.cancel();
+          }
+
+          // Size and pixel limits: the stored dimensions spare reading an oversized original
+          if (isTransformableContentType(cachedContentType) && cacheResult.size <= MAX_TRANSFORM_SOURCE_SIZE &&
+              !exceedsTransformBudget(getStoredDimensions(cacheResult))) {
+            // A new variant costs like a miss (CPU, an R2 write): it counts against the miss budget
+            const missLimit = await checkRateLimit(env, domainConfig.rateLimits.misses, 'misses', parsed.domain, clientIp);
+            if (!missLimit.allowed) {
+              addLog('Rate limited', `${missLimit.scope} miss budget (transform), retry after ${missLimit.retryAfter}s`);
+              await cancelCacheLookups();
+              return createRateLimitResponse(missLimit, domainConfig.rateLimitAction, parsed.sourceUrl, corsHeaders);
+            }
+
+            // Concurrent requests for the same new variant: one transforms it, the
+            // others wait and are served the stored variant (or the original)
+            const coalesced = await coalesceMiss(env, parsed.variantKey, domainConfig.fetchTimeout);
+            if (coalesced.role === 'leader') {
+              fillLease = coalesced.lease;
+              addLog('Coalescing', 'Leader - transforming');
+            } else if (coalesced.role === 'follower') {
+              addLog('Coalescing', `Waited for variant: ${coalesced.outcome}`);
+              const variant = coalesced.outcome === 'stored' ? await getFromCache(env, parsed.variantKey) : null;
+              if (variant && isVariantCurrent(variant, cacheResult)) {
+                return serveCachedVariant(variant);
+              }
+              await variant?.body.cancel();
+            }
+
+            const original = coalesced.role !== 'follower' ? await getFromCache(env, parsed.cacheKey) : null;
+            if (original) {
+              addLog('Transforming', `${formatBytes(original.size)} ${cachedContentType}`);
+              const transformed = await serveTransformed(
+                await original.arrayBuffer(),
+                cachedContentType,
+                getObjectFreshness(original).ttl,
+                true
+              );
+              if (transformed) return transformed;
+            }
+          } else {
+            const stored = getStoredDimensions(cacheResult);
+            addLog('Transform skipped', `${cachedContentType}, ${formatBytes(cacheResult.size)}` +
+              `${stored ? `, ${stored.width}x${stored.height}` : ''} - serving original`);
+          }
+        }
+
+        // Evaluate preconditions (304 Not Modified / 412 Precondition Failed)
+        const conditionalResponse = handleConditionalRequest(request, cacheResult, { ...varyHeaders, ...corsHeaders }, signature.expiresAt);
         if (conditionalResponse) {
-          addLog('Conditional request', '304 Not Modified');
+          addLog('Conditional request', `${conditionalResponse.status}`);
           // Track usage (cache hit - no body transferred)
-          trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+          if (conditionalResponse.status === 304) {
+            trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+          }
           return conditionalResponse;
         }
 
+        // If-Range: the client's partial copy is outdated - ignore Range and send
+        // the full object, so a changed object is never spliced into a resumed download
+        const activeRangeHeader = rangeHeader && isRangeConditionSatisfied(request, {
+          etag: cacheResult.httpEtag,
+          lastModified: cacheResult.uploaded,
+        }) ? rangeHeader : null;
+        if (rangeHeader && !activeRangeHeader) {
+          addLog('If-Range mismatch', 'Ignoring Range, serving full object');
+        }
+
         const contentType = cacheResult.httpMetadata?.contentType || 'application/octet-stream';
         const metadata = cacheResult.customMetadata || {};
         const totalSize = cacheResult.size;
 
         // Parse Range header for partial content support (video/audio seeking)
-        const rangeInfo = rangeHeader ? parseRangeHeader(rangeHeader, totalSize) : null;
+        // Multi-range requests are coalesced; more than one range left = multipart/byteranges
+        const ranges = activeRangeHeader ? parseRangeSet(activeRangeHeader, totalSize) : null;
+        const rangeInfo = ranges && ranges.length > 0 ? ranges[0] : null;
+        if (activeRangeHeader && !ranges) {
+          addLog('Range ignored', `${activeRangeHeader} - serving full object`);
+        }
 
         // Invalid range = 416 Range Not Satisfiable
-        if (rangeHeader && !rangeInfo) {
-          addLog('Invalid range', `${rangeHeader} for size ${totalSize}`);
+        if (ranges && ranges.length === 0) {
+          addLog('Invalid range', `${activeRangeHeader} for size ${totalSize}`);
           return new Response('Range Not Satisfiable', {
             status: 416,
             headers: {
               'Content-Range': `bytes */${totalSize}`,
               'Accept-Ranges': 'bytes',
-              ...getCORSHeaders(),
+              ...corsHeaders,
             },
           });
         }
@@ -317,6 +889,7 @@ export default {
               cdnUrl: request.url.split('?')[0],
               cacheKey: parsed.cacheKey,
               cachedAt: metadata.cachedAt,
+              redirects: metadata.redirects,
               processingTime: totalTime,
               logs,
               env
@@ -324,6 +897,33 @@ export default {
           }
         }
 
+        // Multi-range request: 206 multipart/byteranges assembled from ranged R2 reads
+        if (ranges && ranges.length > 1) {
+          addLog('Multi-range request', `${ranges.length} ranges: ${ranges.map(r => `${r.start}-${r.end}`).join(', ')}/${totalSize}`);
+
+          const multipart = getMultipartRangeBody(env, parsed.cacheKey, ranges, totalSize, contentType, cacheResult.etag);
+
+          // Track usage (cache hit)
+          trackUsage(env, ctx, parsed.domain, true, validation.domain_records);
+
+          return new Response(multipart.body, {
+            status: 206,
+            headers: {
+              'Content-Type': multipart.contentType,
+              'Content-Length': multipart.contentLength.toString(),
+              'Accept-Ranges': 'bytes',
+              'Cache-Control': cacheControl,
+              'ETag': cacheResult.httpEtag,
+              'Last-Modified': cacheResult.uploaded.toUTCString(),
+              'X-ImgPro-Status': 'hit',
+              'X-ImgPro-Cached-At': metadata.cachedAt || '',
+              ...varyHeaders,
+              ...getMediaSecurityHeaders(),
+              ...corsHeaders,
+            },
+          });
+        }
+
         // Handle range request for cached content (partial content for video/audio seeking)
         if (rangeInfo?.isPartial) {
           addLog('Range request', `bytes ${rangeInfo.start}-${rangeInfo.end}/${totalSize}`);
@@ -340,7 +940,7 @@ export default {
               headers: {
                 'Location': parsed.sourceUrl,
                 'Cache-Control': 'no-store, no-cache, must-revalidate',
-                ...getCORSHeaders(),
+                ...corsHeaders,
               },
             });
           }
@@ -357,12 +957,14 @@ export default {
               'Content-Length': rangeInfo.length.toString(),
               'Content-Range': buildContentRangeHeader(rangeInfo.start, rangeInfo.end, totalSize),
               'Accept-Ranges': 'bytes',
-              'Cache-Control': 'public, max-age=31536000, immutable',
-              'ETag': cacheResult.etag,
+              'Cache-Control': cacheControl,
+              'ETag': cacheResult.httpEtag,
               'Last-Modified': cacheResult.uploaded.toUTCString(),
               'X-ImgPro-Status': 'hit',
               'X-ImgPro-Cached-At': metadata.cachedAt || '',
-              ...getCORSHeaders(),
+              ...varyHeaders,
+              ...getMediaSecurityHeaders(),
+              ...corsHeaders,
             },
           });
         }
@@ -376,11 +978,12 @@ export default {
         if ('body' in cacheResult) {
           // Non-range request: cacheResult has the body
           fullObject = cacheResult as R2ObjectBody;
-        } else if (isStandardRange && rangeData) {
+        } else if (isStandardRange && rangeData && rangeInfo) {
           // Full-range standard request: rangeData was fetched in parallel
           fullObject = rangeData;
-        } else if (rangeHeader) {
-          // Full-range non-standard request (e.g., bytes=0-): fetch the full object
+        } else {
+          // Full-range non-standard request (e.g., bytes=0-), Range ignored because
+          // If-Range failed, or an untransformable image: fetch the full object
           fullObject = await getFromCache(env, parsed.cacheKey);
         }
 
@@ -391,7 +994,7 @@ export default {
             headers: {
               'Location': parsed.sourceUrl,
               'Cache-Control': 'no-store, no-cache, must-revalidate',
-              ...getCORSHeaders(),
+              ...corsHeaders,
             },
           });
         }
@@ -407,12 +1010,14 @@ export default {
           'Content-Type': contentType,
           'Content-Length': fullObject.size.toString(),
           'Accept-Ranges': 'bytes',
-          'Cache-Control': 'public, max-age=31536000, immutable',
-          'ETag': cacheResult.etag,
+          'Cache-Control': cacheControl,
+          'ETag': cacheResult.httpEtag,
           'Last-Modified': cacheResult.uploaded.toUTCString(),
           'X-ImgPro-Status': 'hit',
           'X-ImgPro-Cached-At': metadata.cachedAt || '',
-          ...getCORSHeaders(),
+          ...varyHeaders,
+          ...getMediaSecurityHeaders(),
+          ...corsHeaders,
         };
 
         // Add Content-Range for range requests (even full-file ranges)
@@ -426,6 +1031,11 @@ export default {
         });
       }
 
+      // A variant without its original is obsolete - it is recreated from the refetch
+      if (variantResult && !isHeadRequest) {
+        await (variantResult as R2ObjectBody).body.cancel();
+      }
+
       if (parsed.forceReprocess) {
         addLog('Cache bypass', 'Force reprocess requested');
       }
@@ -433,45 +1043,56 @@ export default {
       // Cache miss (or forced reprocess) - fetch from origin
       addLog('Cache MISS', `Fetching from origin: ${parsed.sourceUrl}`);
 
-      // IMPORTANT: For partial range requests on cache miss, redirect to origin
-      // We can only fetch the full file from origin, so we can't serve specific byte ranges.
-      // Lying about Content-Range (saying bytes 0-X when they asked for bytes Y-Z) breaks video players.
-      // Redirect lets the browser get the exact bytes from origin while we cache the full file in background.
-      if (rangeHeader && !isFullFileRange) {
-        addLog('Partial range on cache miss', `${rangeHeader} - redirecting to origin`);
-        return new Response(null, {
-          status: 302,
-          headers: {
-            'Location': parsed.sourceUrl,
-            'Cache-Control': 'no-store, no-cache, must-revalidate',
-            'X-ImgPro-Status': 'redirect',
-            'X-ImgPro-Redirect-Reason': 'partial-range-cache-miss',
-            ...getCORSHeaders(),
-          },
-        });
-      }
+      // Partial range on cache miss (e.g. a video seek): request just that range from
+      // origin and proxy it, while a background fill caches the full object so later
+      // seeks become hits. Only single ranges are forwarded - a multi-range miss fetches
+      // the full file and answers 200, which RFC 9110 allows. Transformations need the
+      // full original, so their Range is never forwarded, and neither is a manifest's:
+      // it is only served rewritten, which needs the whole file.
+      const originRange = !parsed.transform && !isManifestPath(parsed.path) &&
+                          rangeHeader && !isFullFileRange && !rangeHeader.includes(',')
+        ? rangeHeader
+        : undefined;
 
-      // Create redirect validator that checks against our allowlist
-      const validateRedirect = async (finalUrl: string): Promise<boolean> => {
-        const urlValidation = validateUrlForFetch(finalUrl);
-        if (!urlValidation.valid || !urlValidation.domain) {
-          return false;
+      // Fetch with block detection
+      let fetchResult: FetchResult;
+      try {
+        fetchResult = await fetchMediaFromOrigin(
+          parsed.sourceUrl,
+          domainConfig,
+          request,
+          undefined,
+          validateRedirect,
+          originRange ? { 'Range': originRange } : undefined
+        );
+      } catch (error) {
+        // Timeout or network failure
+        const failureReason = getFetchErrorReason(error);
+        if (failureReason) {
+          ctx.waitUntil(recordOriginOutcome(env, parsed.domain, domainConfig.fetchTimeout, { success: false, reason: failureReason }));
         }
+        const staleResponse = await serveStaleCopy(error instanceof Error ? error.message : 'fetch failed');
+        if (staleResponse) return staleResponse;
+        throw error;
+      }
+      let response = fetchResult.response;
+      if (fetchResult.redirects.length > 0) {
+        addLog('Origin redirects', fetchResult.redirects.join(' -> '));
+      }
 
-        // Check if the redirected domain is also allowed
-        const redirectValidation = await validateOrigin(urlValidation.domain, env);
-        return redirectValidation.allowed;
-      };
-
-      // Fetch with block detection
-      const fetchResult = await fetchMediaFromOrigin(parsed.sourceUrl, env, request, undefined, validateRedirect);
-      const response = fetchResult.response;
+      // Server errors, rate limiting and challenge pages count against the origin's circuit
+      ctx.waitUntil(recordOriginOutcome(
+        env, parsed.domain, domainConfig.fetchTimeout, getResponseOutcome(response, fetchResult.blockReason)
+      ));
 
       // Check if origin blocked us (WAF, rate limit, challenge page)
       if (fetchResult.blocked) {
+        ctx.waitUntil(recordNegativeResult(env, parsed.cacheKey, parsed.domain, response, fetchResult.blockReason));
+
+        const staleResponse = await serveStaleCopy(`origin blocked: ${fetchResult.blockReason}`);
+        if (staleResponse) return staleResponse;
+
         addLog('Origin blocked', `${fetchResult.blockReason} - redirecting to origin`);
-        // TODO: Implement negative caching here to avoid hammering blocked origins
-        // For now, just redirect
         return new Response(null, {
           status: 302,
           headers: {
@@ -479,46 +1100,296 @@ export default {
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
             'X-ImgPro-Block-Reason': fetchResult.blockReason || 'unknown',
-            ...getCORSHeaders(),
+            ...corsHeaders,
           },
         });
       }
 
       if (!response.ok) {
+        // Origin server error: previous copy beats a redirect to a failing origin
+        if (response.status >= 500) {
+          const staleResponse = await serveStaleCopy(`origin HTTP ${response.status}`);
+          if (staleResponse) return staleResponse;
+        }
+
         // Redirect to origin - let user see the real error (404, 500, etc.)
         addLog('Origin fetch failed', `HTTP ${response.status} - redirecting to origin`);
+        ctx.waitUntil(recordNegativeResult(env, parsed.cacheKey, parsed.domain, response));
         return new Response(null, {
           status: 302,
           headers: {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
-            ...getCORSHeaders(),
+            ...corsHeaders,
           },
         });
       }
 
       addLog('Origin fetch success', `HTTP ${response.status}`);
 
+      // A forced refetch may succeed where an earlier attempt was negative-cached
+      if (parsed.forceReprocess) {
+        ctx.waitUntil(clearNegativeCacheEntry(parsed.cacheKey).catch(() => {}));
+      }
+
+      // Generic types for .m4s/.mpd paths are mapped to the DASH types
+      const declaredType = getEffectiveContentType(response.headers.get('Content-Type') || '', parsed.path);
+      const originUrl = response.url || parsed.sourceUrl;
+      let contentType = declaredType;
+
+      // Requests waiting for this fetch keep waiting while the body arrives
+      if (fillLease && response.body) {
+        response = new Response(trackFillProgress(env, ctx, fillLease, response.body), response);
+      }
+      let sniffedType: string | null = null;
+
+      // Content sniffing: the first bytes must match the declared type, so an HTML
+      // error page labeled image/jpeg is never cached (see sniff.ts). Proxied
+      // ranges don't start at byte 0 - their background fill sniffs instead.
+      if (response.status === 200 && response.body) {
+        const sniffed = await sniffContent(response.body, declaredType);
+        response = new Response(sniffed.body, response);
+
+        if (!sniffed.contentType) {
+          addLog('Content mismatch', `${sniffed.reason}, declared ${declaredType} - redirecting to origin`);
+          ctx.waitUntil(recordNegativeResult(env, parsed.cacheKey, parsed.domain, response, sniffed.reason));
+          await response.body?.cancel();
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              'X-ImgPro-Block-Reason': sniffed.reason || 'unknown',
+              ...corsHeaders,
+            },
+          });
+        }
+
+        if (sniffed.contentType !== declaredType) {
+          addLog('Content type corrected', `${declaredType || 'none'} -> ${sniffed.contentType} (sniffed)`);
+        }
+        contentType = sniffed.contentType;
+        sniffedType = sniffed.sniffedType;
+      }
+
       // Validate content type - must be supported media type
-      const contentType = response.headers.get('Content-Type') || '';
       if (!isMediaContentType(contentType)) {
         addLog('Not supported media', `${contentType} - redirecting to origin`);
+        ctx.waitUntil(recordNegativeResult(env, parsed.cacheKey, parsed.domain, response, 'unsupported_content_type'));
         return new Response(null, {
           status: 302,
           headers: {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
-            ...getCORSHeaders(),
+            ...corsHeaders,
           },
         });
       }
 
       addLog('Content type validated', contentType);
 
-      // Parse max file size (default 500MB for video support)
-      const maxSize = parseFileSize(env.MAX_FILE_SIZE || '500MB');
+      // Pixel dimensions: a tiny file can declare a huge image (decompression bomb).
+      // Only the header is read; the body still streams as usual (see dimensions.ts)
+      let dimensions: ImageDimensions | null = null;
+      if (response.status === 200 && response.body && hasDimensionHeader(contentType)) {
+        const inspected = await readImageDimensions(response.body);
+        response = new Response(inspected.body, response);
+        dimensions = inspected.dimensions;
+
+        const limitError = dimensions && getDimensionLimitError(dimensions, domainConfig);
+        if (limitError) {
+          addLog('Image too large', `${limitError} - redirecting to origin`);
+          ctx.waitUntil(recordNegativeResult(env, parsed.cacheKey, parsed.domain, response, 'dimensions_exceeded'));
+          await response.body?.cancel();
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              'X-ImgPro-Block-Reason': 'dimensions_exceeded',
+              ...corsHeaders,
+            },
+          });
+        }
+
+        addLog('Dimensions validated', dimensions ? `${dimensions.width}x${dimensions.height}` : 'header not found');
+      }
+
+      // Freshness: TTL (configured or origin-derived) and origin validators for revalidation
+      const freshness = getFreshnessFromOrigin(domainConfig, response);
+      const cacheControl = getCacheControlHeader(freshness.ttl, signature.expiresAt);
+
+      const maxSize = domainConfig.maxFileSize;
+
+      // HLS playlist / DASH MPD: rewrite segment, variant and key URIs to CDN paths,
+      // then cache the rewritten copy (live manifests with a short TTL).
+      // A partial manifest (Range sent for a path without a manifest extension)
+      // can't be rewritten - redirect and let the background fill cache it.
+      if (isManifestContentType(contentType)) {
+        if (response.status !== 200) {
+          addLog('Manifest range response', 'cannot rewrite a partial manifest - redirecting to origin');
+          ctx.waitUntil(fillCacheInBackground(env, ctx, parsed, request, domainConfig, clientIp, validateRedirect));
+          await response.body?.cancel();
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              ...corsHeaders,
+            },
+          });
+        }
+
+        const manifest = await rewriteManifestResponse(
+          env, response, contentType, freshness, originUrl, { domain: parsed.domain, config: domainConfig }
+        );
+        addLog('Manifest rewritten', `${formatBytes(manifest.body.byteLength)}, TTL ${manifest.freshness.ttl ?? 'immutable'}`);
+
+        const manifestStored = storeInCacheStream(
+          env,
+          parsed.cacheKey,
+          new Response(manifest.body).body!,
+          contentType,
+          manifest.body.byteLength,
+          parsed.sourceUrl,
+          parsed.domain,
+          manifest.freshness,
+          fetchResult.redirects,
+          sniffedType
+        );
+        ctx.waitUntil(manifestStored.catch(e => {
+          console.error('Failed to store in cache:', e);
+        }));
+        releaseFillLease(env, ctx, fillLease, manifestStored);
+
+        trackUsage(env, ctx, parsed.domain, false, validation.domain_records);
+
+        return new Response(manifest.body, {
+          status: 200,
+          headers: {
+            'Content-Type': contentType,
+            'Content-Length': manifest.body.byteLength.toString(),
+            'Cache-Control': getCacheControlHeader(manifest.freshness.ttl, signature.expiresAt),
+            'X-ImgPro-Status': 'miss',
+            ...varyHeaders,
+            ...getMediaSecurityHeaders(),
+            ...corsHeaders,
+          },
+        });
+      }
+
+      // SVG: only the sanitized copy is cached and served (see svg.ts). A partial
+      // response can't be sanitized - redirect and let the background fill do it.
+      if (isSvgContentType(contentType)) {
+        if (response.status !== 200) {
+          addLog('SVG range response', 'cannot sanitize a partial SVG - redirecting to origin');
+          ctx.waitUntil(fillCacheInBackground(env, ctx, parsed, request, domainConfig, clientIp, validateRedirect));
+          await response.body?.cancel();
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              ...corsHeaders,
+            },
+          });
+        }
+
+        let svg: Uint8Array;
+        try {
+          svg = await sanitizeSvgResponse(response);
+        } catch (error) {
+          addLog('SVG rejected', `${error instanceof Error ? error.message : error} - redirecting to origin`);
+          return new Response(null, {
+            status: 302,
+            headers: {
+              'Location': parsed.sourceUrl,
+              'Cache-Control': 'no-store, no-cache, must-revalidate',
+              'X-ImgPro-Status': 'redirect',
+              'X-ImgPro-Block-Reason': 'svg_rejected',
+              ...corsHeaders,
+            },
+          });
+        }
+        addLog('SVG sanitized', formatBytes(svg.byteLength));
+
+        const svgStored = storeInCacheStream(
+          env,
+          parsed.cacheKey,
+          new Response(svg).body!,
+          contentType,
+          svg.byteLength,
+          parsed.sourceUrl,
+          parsed.domain,
+          freshness,
+          fetchResult.redirects,
+          sniffedType
+        );
+        ctx.waitUntil(svgStored.catch(e => {
+          console.error('Failed to store in cache:', e);
+        }));
+        releaseFillLease(env, ctx, fillLease, svgStored);
+
+        trackUsage(env, ctx, parsed.domain, false, validation.domain_records);
+
+        return new Response(svg, {
+          status: 200,
+          headers: {
+            'Content-Type': contentType,
+            'Content-Length': svg.byteLength.toString(),
+            'Cache-Control': cacheControl,
+            'X-ImgPro-Status': 'miss',
+            ...varyHeaders,
+            ...getMediaSecurityHeaders(),
+            ...corsHeaders,
+          },
+        });
+      }
+
+      // Origin honored our Range: proxy the partial response, fill the cache in background
+      // (If origin ignored Range and sent 200, fall through and cache/serve the full body)
+      if (originRange && response.status === 206 && response.body) {
+        const contentRange = response.headers.get('Content-Range') || '';
+        const totalSize = parseContentRangeTotal(contentRange);
+        addLog('Origin range response', `${contentRange} - proxying`);
+
+        // One fill per object at a time, counted against the miss budget (see cache-fill.ts)
+        if (totalSize === null || totalSize <= maxSize) {
+          addLog('Background fill', 'Caching full object from origin (unless already in progress)');
+          ctx.waitUntil(fillCacheInBackground(env, ctx, parsed, request, domainConfig, clientIp, validateRedirect));
+        } else {
+          addLog('Background fill skipped', `${formatBytes(totalSize)} exceeds max size`);
+        }
+
+        // Track usage (cache miss)
+        trackUsage(env, ctx, parsed.domain, false, validation.domain_records);
+
+        const rangeHeaders: Record<string, string> = {
+          'Content-Type': contentType,
+          'Content-Range': contentRange,
+          'Accept-Ranges': 'bytes',
+          'Cache-Control': cacheControl,
+          'X-ImgPro-Status': 'miss',
+          ...varyHeaders,
+          ...getMediaSecurityHeaders(),
+          ...corsHeaders,
+        };
+        const rangeLength = response.headers.get('Content-Length');
+        if (rangeLength) {
+          rangeHeaders['Content-Length'] = rangeLength;
+        }
+
+        return new Response(response.body, {
+          status: 206,
+          headers: rangeHeaders,
+        });
+      }
 
       // Validate size via Content-Length header (no buffering)
       const sizeValidation = validateResponseSize(response, maxSize);
@@ -531,7 +1402,7 @@ export default {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
-            ...getCORSHeaders(),
+            ...corsHeaders,
           },
         });
       }
@@ -547,7 +1418,55 @@ export default {
           headers: {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
-            ...getCORSHeaders(),
+            ...corsHeaders,
+          },
+        });
+      }
+
+      // Image transformation: buffer the original (bounded by MAX_TRANSFORM_SOURCE_SIZE
+      // and the pixel budget), cache it as usual and serve the transformed variant instead
+      if (parsed.transform && isTransformableContentType(contentType) &&
+          contentLength !== null && contentLength <= MAX_TRANSFORM_SOURCE_SIZE &&
+          !exceedsTransformBudget(dimensions)) {
+        const { stream } = createSizeLimitedStream(response.body, contentLength);
+        const source = await new Response(stream).arrayBuffer();
+        addLog('Transforming', `${formatBytes(source.byteLength)} ${contentType}`);
+
+        const originalStored = storeInCacheStream(
+          env,
+          parsed.cacheKey,
+          new Response(source).body!,
+          contentType,
+          source.byteLength,
+          parsed.sourceUrl,
+          parsed.domain,
+          freshness,
+          fetchResult.redirects,
+          sniffedType,
+          dimensions
+        );
+        ctx.waitUntil(originalStored.catch(e => {
+          console.error('Failed to store in cache:', e);
+        }));
+
+        const transformed = await serveTransformed(source, contentType, freshness.ttl, false, originalStored);
+        if (transformed) return transformed;
+
+        // Transformation failed: serve the original we already have in memory
+        // (waiting requests find the stored original)
+        releaseFillLease(env, ctx, fillLease, originalStored);
+        trackUsage(env, ctx, parsed.domain, false, validation.domain_records);
+        return new Response(source, {
+          status: 200,
+          headers: {
+            'Content-Type': contentType,
+            'Content-Length': source.byteLength.toString(),
+            'Accept-Ranges': 'bytes',
+            'Cache-Control': cacheControl,
+            'X-ImgPro-Status': 'miss',
+            ...varyHeaders,
+            ...getMediaSecurityHeaders(),
+            ...corsHeaders,
           },
         });
       }
@@ -571,19 +1490,24 @@ export default {
       );
 
       // Store in R2 using stream (background, non-blocking)
-      ctx.waitUntil(
-        storeInCacheStream(
-          env,
-          parsed.cacheKey,
-          cacheStream,
-          contentType,
-          contentLength,
-          parsed.sourceUrl,
-          parsed.domain
-        ).catch(e => {
-          console.error('Failed to store in cache:', e);
-        })
+      // Waiting misses are woken once the object has landed
+      const stored = storeInCacheStream(
+        env,
+        parsed.cacheKey,
+        cacheStream,
+        contentType,
+        contentLength,
+        parsed.sourceUrl,
+        parsed.domain,
+        freshness,
+        fetchResult.redirects,
+        sniffedType,
+        dimensions
       );
+      ctx.waitUntil(stored.catch(e => {
+        console.error('Failed to store in cache:', e);
+      }));
+      releaseFillLease(env, ctx, fillLease, stored);
 
       addLog('Storing in R2', 'streaming (background)');
 
@@ -595,16 +1519,20 @@ export default {
       // Determine if we should return 206 Partial Content
       // Video players expect 206 with Content-Range to confirm range support
       // For empty files (contentLength === 0), return 200 - no bytes to serve in a range
-      const shouldReturn206 = rangeHeader && contentLength !== null && contentLength > 0;
+      // Only for "bytes=0-" probes - any other range got the full body here because
+      // origin ignored it, and claiming 0-N for a request of X-Y would be a lie
+      const shouldReturn206 = isFullFileRange && contentLength !== null && contentLength > 0;
       const status = shouldReturn206 ? 206 : 200;
 
       // Build response headers
       const responseHeaders: Record<string, string> = {
         'Content-Type': contentType,
         'Accept-Ranges': 'bytes',
-        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Cache-Control': cacheControl,
         'X-ImgPro-Status': 'miss',
-        ...getCORSHeaders(),
+        ...varyHeaders,
+        ...getMediaSecurityHeaders(),
+        ...corsHeaders,
       };
 
       if (contentLength !== null) {
@@ -642,14 +1570,14 @@ export default {
       // This ensures the CDN NEVER breaks user experience
       // Even security errors (SSRF) - let the user's browser handle the redirect directly
       try {
-        const parsed = parseUrl(url);
+        const parsed = parseUrl(url, env, resolvedConfig ?? undefined);
         return new Response(null, {
           status: 302,
           headers: {
             'Location': parsed.sourceUrl,
             'Cache-Control': 'no-store, no-cache, must-revalidate',
             'X-ImgPro-Status': 'redirect',
-            ...getCORSHeaders(),
+            ...(resolvedConfig ? getDomainCORSHeaders(request, resolvedConfig.cors) : getCORSHeaders()),
           },
         });
       } catch {
@@ -657,6 +1585,9 @@ export default {
         // This only happens for completely malformed URLs
         return errorResponse('Invalid request', 400);
       }
+    } finally {
+      // Leader ended without storing anything (redirect, error): wake the followers
+      releaseFillLease(env, ctx, fillLease);
     }
   },
 };
@@ -0,0 +1,267 @@
+/**
+ * Streaming manifest rewriting (HLS and MPEG-DASH)
+ *
+ * Manifests reference their segments, keys, init sections and variant
+ * playlists by URI - usually relative to the manifest, sometimes absolute
+ * origin URLs. Cached verbatim, those URIs would send players straight to the
+ * origin. On the way through, URIs are resolved against the manifest's
+ * source URL and rewritten to a root-relative CDN path:
+ *
+ *   https://origin.com/video/720p/seg1.ts  ->  /origin.com/video/720p/seg1.ts
+ *
+ * Root-relative paths keep the cached manifest independent of the worker
+ * hostname. Query strings are kept when the domain forwards all of their
+ * parameters (QUERY_FORWARD, or the domain's config record). URIs that
+ * cannot go through the CDN (other query strings, non-HTTP schemes like
+ * skd://, invalid domains) are left pointing at the origin, made absolute
+ * so they still resolve once the playlist is served from the CDN.
+ *
+ * Live manifests change every few seconds, so they are cached with a TTL
+ * derived from their reload interval instead of the configured TTL.
+ *
+ * Rewritten URIs are never signed (see signing.ts): on signed-URL domains,
+ * segments need a path outside the signed path_prefixes.
+ *
+ * Range is never forwarded for manifest paths: a manifest is rewritten and
+ * cached as a whole, then ranges are served from the cached copy.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8216 (HLS)
+ * @see ISO/IEC 23009-1 (MPEG-DASH)
+ */
+
+import type { Env, DomainConfig } from './types';
+import type { FreshnessInfo } from './freshness';
+import { isValidDomain, isDASHContentType, isQueryForwarded } from './validation';
+import { createSizeLimitedStream } from './origin';
+
+/** Largest manifest we will buffer and rewrite (bytes) */
+const MAX_MANIFEST_SIZE = 5 * 1024 * 1024;
+
+/** Bounds for live manifest TTLs (seconds) */
+const MIN_LIVE_MANIFEST_TTL = 1;
+const MAX_LIVE_MANIFEST_TTL = 10;
+
+/**
+ * Rewritten manifest ready to store and serve
+ */
+export interface RewrittenManifest {
+  body: Uint8Array;
+  freshness: FreshnessInfo;
+}
+
+/**
+ * Domain a manifest was requested for, with its effective config
+ *
+ * URIs on that domain follow its query rules, which may come from its config
+ * record; URIs on other domains follow the env rules.
+ */
+export interface ManifestSite {
+  domain: string;
+  config: DomainConfig;
+}
+
+/**
+ * Rewrite one URI from a manifest to a CDN path
+ *
+ * @param env - Query rules (QUERY_FORWARD) decide if a query string can be proxied
+ * @param uri - URI as written in the manifest
+ * @param baseUrl - URL the manifest was fetched from (after redirects)
+ * @param site - Domain the manifest was requested for, with its config
+ * @returns CDN path, or the absolute origin URL if it cannot be proxied
+ */
+export function toCdnPath(env: Env, uri: string, baseUrl: string, site?: ManifestSite): string {
+  // Variable substitution (EXT-X-DEFINE) is resolved by the player, not us
+  if (uri.includes('{$')) {
+    return uri;
+  }
+
+  let resolved: URL;
+  try {
+    resolved = new URL(uri, baseUrl);
+  } catch {
+    return uri;
+  }
+
+  if (resolved.protocol !== 'https:' && resolved.protocol !== 'http:') {
+    return uri;
+  }
+
+  if (!isValidDomain(resolved.hostname)) {
+    return resolved.href;
+  }
+
+  // Parameters the origin would not receive must not be dropped silently
+  const config = site?.domain === resolved.hostname ? site.config : undefined;
+  if (resolved.search && !isQueryForwarded(env, resolved.hostname, resolved.searchParams, config)) {
+    return resolved.href;
+  }
+
+  return `/${resolved.hostname}${resolved.pathname}${resolved.search}`;
+}
+
+/**
+ * Rewrite all URIs in an HLS playlist (master or media)
+ *
+ * URI lines (segments, variant playlists) and URI="..." attributes
+ * (EXT-X-KEY, EXT-X-MAP, EXT-X-MEDIA, EXT-X-I-FRAME-STREAM-INF, ...) are
+ * rewritten. Content that is not a playlist is returned unchanged.
+ */
+export function rewriteHlsPlaylist(env: Env, playlist: string, baseUrl: string, site?: ManifestSite): string {
+  const lines = playlist.split(/\r?\n/);
+  if (lines[0].replace(/^\uFEFF/, '').trim() !== '#EXTM3U') {
+    return playlist;
+  }
+
+  return lines.map(line => {
+    const trimmed = line.trim();
+    if (trimmed === '') {
+      return line;
+    }
+
+    if (trimmed.startsWith('#')) {
+      return line.replace(/URI="([^"]*)"/g, (_, uri: string) => `URI="${toCdnPath(env, uri, baseUrl, site)}"`);
+    }
+
+    return toCdnPath(env, trimmed, baseUrl, site);
+  }).join('\n');
+}
+
+/**
+ * Get the TTL for a live media playlist
+ *
+ * A live playlist (target duration, no EXT-X-ENDLIST, not type VOD) is
+ * reloaded by players about once per target duration; caching it for half
+ * of that keeps players close to the live edge.
+ *
+ * @returns seconds, or null for master / VOD playlists (use the configured TTL)
+ */
+export function getLivePlaylistTtl(playlist: string): number | null {
+  const targetDuration = playlist.match(/^#EXT-X-TARGETDURATION:\s*(\d+)/m);
+  if (!targetDuration) return null;
+
+  if (/^#EXT-X-ENDLIST/m.test(playlist) || /^#EXT-X-PLAYLIST-TYPE:\s*VOD/m.test(playlist)) {
+    return null;
+  }
+
+  return getLiveManifestTtl(parseInt(targetDuration[1], 10));
+}
+
+/**
+ * TTL for a live manifest reloaded every `reloadInterval` seconds
+ *
+ * Caching for half the interval keeps players close to the live edge.
+ */
+function getLiveManifestTtl(reloadInterval: number): number {
+  const ttl = Math.ceil(reloadInterval / 2);
+  return Math.min(Math.max(ttl, MIN_LIVE_MANIFEST_TTL), MAX_LIVE_MANIFEST_TTL);
+}
+
+/**
+ * Rewrite one URI from a DASH manifest
+ *
+ * Relative references are left alone: the MPD is served from a CDN path that
+ * mirrors the origin path, so they resolve through the CDN already - and
+ * they may be relative to a parent BaseURL rather than the MPD itself.
+ * Absolute and root-relative references are rewritten (root-relative ones
+ * resolve against the MPD's origin).
+ */
+function rewriteDashUri(env: Env, uri: string, baseUrl: string, site?: ManifestSite): string {
+  const trimmed = uri.trim();
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(trimmed) && !trimmed.startsWith('/')) {
+    return uri;
+  }
+  return toCdnPath(env, trimmed, baseUrl, site);
+}
+
+/**
+ * Rewrite URIs in a DASH manifest (MPD)
+ *
+ * Covers BaseURL, Location and PatchLocation elements, SegmentTemplate /
+ * SegmentURL media, initialization and index attributes (including
+ * $Number$-style template identifiers), and Initialization /
+ * RepresentationIndex / BitstreamSwitching sourceURL attributes.
+ */
+export function rewriteDashManifest(env: Env, mpd: string, baseUrl: string, site?: ManifestSite): string {
+  return mpd
+    .replace(
+      /<(BaseURL|Location|PatchLocation)(\s[^>]*)?>([^<]*)<\/\1>/g,
+      (_, element: string, attributes: string | undefined, uri: string) =>
+        `<${element}${attributes || ''}>${rewriteDashUri(env, uri, baseUrl, site)}</${element}>`
+    )
+    .replace(
+      /(\s(?:media|initialization|index|sourceURL)=)(["'])([^"']*)\2/g,
+      (_, name: string, quote: string, uri: string) =>
+        `${name}${quote}${rewriteDashUri(env, uri, baseUrl, site)}${quote}`
+    );
+}
+
+/**
+ * Parse an ISO 8601 duration as used in MPDs (e.g. "PT2S", "PT1M30.5S")
+ *
+ * @returns seconds, or null if not a valid duration
+ */
+function parseIsoDuration(value: string): number | null {
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match.map(part => parseFloat(part || '0'));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Get the TTL for a live DASH manifest
+ *
+ * A dynamic MPD with minimumUpdatePeriod is reloaded by players at that
+ * interval. Dynamic MPDs without it never change.
+ *
+ * @returns seconds, or null for static MPDs (use the configured TTL)
+ */
+export function getLiveMpdTtl(mpd: string): number | null {
+  const mpdElement = mpd.match(/<MPD\b[^>]*>/);
+  if (!mpdElement || !/\stype=["']dynamic["']/.test(mpdElement[0])) return null;
+
+  const updatePeriod = mpdElement[0].match(/\sminimumUpdatePeriod=["']([^"']*)["']/);
+  const seconds = updatePeriod ? parseIsoDuration(updatePeriod[1]) : null;
+  return seconds !== null ? getLiveManifestTtl(seconds) : null;
+}
+
+/**
+ * Read a manifest response (HLS or DASH) and rewrite it for the CDN
+ *
+ * Consumes the response body.
+ *
+ * @param env - Worker environment (query rules)
+ * @param response - Origin response
+ * @param contentType - Manifest content type (see isManifestContentType)
+ * @param freshness - Freshness captured from the origin response
+ * @param baseUrl - URL the manifest was fetched from (after redirects)
+ * @param site - Domain the manifest was requested for, with its config
+ * @throws If the manifest exceeds MAX_MANIFEST_SIZE
+ */
+export async function rewriteManifestResponse(
+  env: Env,
+  response: Response,
+  contentType: string,
+  freshness: FreshnessInfo,
+  baseUrl: string,
+  site?: ManifestSite
+): Promise<RewrittenManifest> {
+  if (!response.body) {
+    throw new Error('Manifest response has no body');
+  }
+
+  const { stream, byteCount } = createSizeLimitedStream(response.body, MAX_MANIFEST_SIZE);
+  byteCount.catch(() => {
+    // Size limit errors surface through text() below
+  });
+
+  const text = await new Response(stream).text();
+  const isDash = isDASHContentType(contentType);
+  const manifest = isDash ? rewriteDashManifest(env, text, baseUrl, site) : rewriteHlsPlaylist(env, text, baseUrl, site);
+  const liveTtl = isDash ? getLiveMpdTtl(manifest) : getLivePlaylistTtl(manifest);
+
+  return {
+    body: new TextEncoder().encode(manifest),
+    freshness: liveTtl !== null ? { ...freshness, ttl: liveTtl } : freshness,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Miss Coalescer Durable Object
+ *
+ * Each cache key gets its own Durable Object instance that makes sure only
+ * one request at a time fetches the object from the origin:
+ *
+ *   - The first miss acquires a lease and becomes the leader: it fetches
+ *     from the origin and stores the object in R2 as usual
+ *   - Misses that arrive while the lease is held become followers: their
+ *     /acquire call is held open until the leader releases the lease
+ *   - The leader releases with the outcome of its R2 write; followers are
+ *     told whether the object is now in R2 ('stored') or not ('failed')
+ *   - While it makes progress (origin answered, body streaming), the leader
+ *     renews the lease; followers wait as long as the lease lives, up to
+ *     their own wait time ('timeout')
+ *   - A request that asks not to wait (a background fill) is told the lease
+ *     is taken ('busy') instead of becoming a follower
+ *
+ * A leader that stops making progress (stalled origin, evicted isolate) loses
+ * the lease when it runs out: its followers give up ('timeout') and the next
+ * miss takes over.
+ *
+ * State lives in memory only - leases are short-lived by design.
+ */
+
+import type { Env } from './types';
+
+export type FillOutcome = 'stored' | 'failed' | 'timeout' | 'busy';
+
+export type AcquireResult =
+	| { role: 'leader'; leaseId: string }
+	| { role: 'follower'; outcome: FillOutcome };
+
+/**
+ * Request body for /acquire
+ */
+export interface AcquireRequest {
+	leaseTtl: number;  // Milliseconds before an unreleased lease expires
+	wait: number;      // Milliseconds a follower waits at most for the leader (0 = don't wait)
+}
+
+/**
+ * Request body for /renew
+ */
+export interface RenewRequest {
+	leaseId: string;
+	leaseTtl: number;  // Milliseconds from now
+}
+
+/**
+ * Request body for /release
+ */
+export interface ReleaseRequest {
+	leaseId: string;
+	stored: boolean;
+}
+
+interface Waiter {
+	resolve: (outcome: FillOutcome) => void;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+interface Lease {
+	id: string;
+	expiresAt: number;
+	timer: ReturnType<typeof setTimeout>;
+}
+
+export class MissCoalescer implements DurableObject {
+	private lease: Lease | null = null;
+	private waiters: Set<Waiter> = new Set();
+
+	constructor(_state: DurableObjectState, _env: Env) {}
+
+	async fetch(request: Request): Promise<Response> {
+		try {
+			const { pathname } = new URL(request.url);
+
+			switch (pathname) {
+				case '/acquire':
+					return this.json(await this.acquire(await request.json(), Date.now()));
+				case '/renew':
+					return this.json({ renewed: this.renew(await request.json(), Date.now()) });
+				case '/release':
+					this.release(await request.json());
+					return this.json({ released: true });
+				default:
+					return new Response('Not found', { status: 404 });
+			}
+		} catch (err) {
+			console.error('Miss coalescer fetch error:', err);
+			return new Response('Error', { status: 500 });
+		}
+	}
+
+	private json(data: unknown): Response {
+		return new Response(JSON.stringify(data), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
+	private async acquire({ leaseTtl, wait }: AcquireRequest, now: number): Promise<AcquireResult> {
+		if (!this.lease || now >= this.lease.expiresAt) {
+			if (this.lease) clearTimeout(this.lease.timer);
+			const id = crypto.randomUUID();
+			this.lease = { id, expiresAt: now + leaseTtl, timer: this.expireAfter(id, leaseTtl) };
+			return { role: 'leader', leaseId: id };
+		}
+
+		if (wait <= 0) {
+			return { role: 'follower', outcome: 'busy' };
+		}
+
+		const outcome = await new Promise<FillOutcome>(resolve => {
+			const waiter: Waiter = {
+				resolve,
+				timer: setTimeout(() => {
+					this.waiters.delete(waiter);
+					resolve('timeout');
+				}, wait),
+			};
+			this.waiters.add(waiter);
+		});
+
+		return { role: 'follower', outcome };
+	}
+
+	/**
+	 * Extend the current lease (the leader made progress)
+	 *
+	 * @returns false if the lease already expired or was released
+	 */
+	private renew({ leaseId, leaseTtl }: RenewRequest, now: number): boolean {
+		if (this.lease?.id !== leaseId) return false;
+
+		clearTimeout(this.lease.timer);
+		this.lease.expiresAt = now + leaseTtl;
+		this.lease.timer = this.expireAfter(leaseId, leaseTtl);
+		return true;
+	}
+
+	/**
+	 * Drop a lease that was neither renewed nor released in time
+	 *
+	 * Its followers stop waiting for a leader that no longer makes progress.
+	 */
+	private expireAfter(leaseId: string, ttl: number): ReturnType<typeof setTimeout> {
+		return setTimeout(() => {
+			if (this.lease?.id !== leaseId) return;
+			this.lease = null;
+			this.wake('timeout');
+		}, ttl);
+	}
+
+	/**
+	 * End a lease and wake the followers
+	 *
+	 * A late release from an expired leader still wakes everyone if it stored
+	 * the object - it is in R2 either way.
+	 */
+	private release({ leaseId, stored }: ReleaseRequest): void {
+		if (this.lease?.id === leaseId) {
+			clearTimeout(this.lease.timer);
+			this.lease = null;
+		} else if (!stored) {
+			return;
+		}
+
+		this.wake(stored ? 'stored' : 'failed');
+	}
+
+	private wake(outcome: FillOutcome): void {
+		for (const waiter of this.waiters) {
+			clearTimeout(waiter.timer);
+			waiter.resolve(outcome);
+		}
+		this.waiters.clear();
+	}
+}
@@ -0,0 +1,207 @@
+/**
+ * Negative caching for blocked and failing origins
+ *
+ * When an origin answers with a WAF challenge, 401/403, 429 or 404, every
+ * repeat request would otherwise go straight back to the origin - hammering
+ * an origin that is already refusing us. Instead we remember the failure for
+ * a short TTL and redirect repeat requests immediately.
+ *
+ * Two scopes:
+ *   - key    : one cache key (404/410 including HTML error pages, per-file
+ *              403, non-media responses)
+ *   - domain : whole origin domain (rate limiting, WAF challenge pages -
+ *              small HTML pages with status 200, 403 or 503)
+ *
+ * 5xx responses are never remembered (usually transient, and retrying is
+ * cheap) - except challenge pages served as 503.
+ *
+ * Storage: Workers Cache API (caches.default). Entries are per data center,
+ * expire on their own, and cost nothing - a missed entry in another location
+ * only means one extra origin request there.
+ *
+ * Configuration:
+ *   NEGATIVE_CACHE_TTL - seconds (default 60, "0" disables)
+ *   429 responses use the origin's Retry-After when it is longer.
+ */
+
+import type { Env } from './types';
+
+/** Default negative cache TTL in seconds */
+const DEFAULT_NEGATIVE_TTL = 60;
+
+/** Upper bound for any negative entry, including Retry-After (1 hour) */
+const MAX_NEGATIVE_TTL = 3600;
+
+/** Synthetic host for Cache API keys - never fetched, only used as a key */
+const NEGATIVE_CACHE_BASE = 'https://negative-cache.imgpro.internal';
+
+/**
+ * Block reasons (from detectBlockedResponse) that affect the whole domain
+ *
+ * Rate limits and WAF challenge pages are origin-wide decisions; a per-file
+ * 403 or an HTML error page for one path ('html_error_page') is not.
+ */
+const DOMAIN_WIDE_BLOCK_REASONS = new Set([
+  'rate_limited',
+  'html_challenge_page',
+]);
+
+/**
+ * Origin HTTP statuses that are negative-cached per key
+ *
+ * 5xx is deliberately excluded - usually transient, and retrying is cheap.
+ */
+const NEGATIVE_STATUSES = new Set([404, 410]);
+
+export interface NegativeCacheEntry {
+  scope: 'key' | 'domain';
+  reason: string;
+  expiresAt: string;
+}
+
+/**
+ * Get configured negative cache TTL in seconds (0 = disabled)
+ */
+export function getNegativeCacheTtl(env: Env): number {
+  const ttl = parseInt(env.NEGATIVE_CACHE_TTL || '', 10);
+  if (isNaN(ttl) || ttl < 0) {
+    return DEFAULT_NEGATIVE_TTL;
+  }
+  return Math.min(ttl, MAX_NEGATIVE_TTL);
+}
+
+/**
+ * Parse Retry-After header (delay-seconds or HTTP-date) to seconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function getEntryRequest(scope: 'key' | 'domain', id: string): Request {
+  return new Request(`${NEGATIVE_CACHE_BASE}/${scope}/${encodeURIComponent(id)}`);
+}
+
+/**
+ * Look up negative entries for a cache key and its domain
+ *
+ * Domain-wide entries take precedence (checked in parallel).
+ */
+export async function getNegativeCacheEntry(
+  cacheKey: string,
+  domain: string
+): Promise<NegativeCacheEntry | null> {
+  try {
+    const cache = caches.default;
+    const [domainMatch, keyMatch] = await Promise.all([
+      cache.match(getEntryRequest('domain', domain)),
+      cache.match(getEntryRequest('key', cacheKey)),
+    ]);
+
+    const match = domainMatch || keyMatch;
+    if (!match) return null;
+
+    return await match.json<NegativeCacheEntry>();
+  } catch (error) {
+    // Negative cache is an optimization - never fail the request over it
+    console.error('Negative cache lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a negative entry
+ */
+async function putNegativeCacheEntry(
+  scope: 'key' | 'domain',
+  id: string,
+  reason: string,
+  ttl: number
+): Promise<NegativeCacheEntry> {
+  const entry: NegativeCacheEntry = {
+    scope,
+    reason,
+    expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+  };
+
+  await caches.default.put(
+    getEntryRequest(scope, id),
+    new Response(JSON.stringify(entry), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': `max-age=${ttl}`,
+      },
+    })
+  );
+
+  return entry;
+}
+
+/**
+ * Record a failed origin fetch, if it is worth remembering
+ *
+ * @param env - Environment bindings
+ * @param cacheKey - Cache key of the request
+ * @param domain - Origin domain
+ * @param response - Origin response
+ * @param blockReason - Reason from detectBlockedResponse (if blocked)
+ * @returns The stored entry, or null if nothing was recorded
+ */
+export async function recordNegativeResult(
+  env: Env,
+  cacheKey: string,
+  domain: string,
+  response: Response,
+  blockReason?: string
+): Promise<NegativeCacheEntry | null> {
+  let ttl = getNegativeCacheTtl(env);
+  if (ttl === 0) return null;
+
+  let scope: 'key' | 'domain';
+  let reason: string;
+
+  if (response.status >= 500 && blockReason !== 'html_challenge_page') {
+    return null;
+  }
+
+  if (blockReason) {
+    scope = DOMAIN_WIDE_BLOCK_REASONS.has(blockReason) ? 'domain' : 'key';
+    reason = blockReason;
+  } else if (NEGATIVE_STATUSES.has(response.status)) {
+    scope = 'key';
+    reason = `http_${response.status}`;
+  } else {
+    return null;
+  }
+
+  // Respect the origin's own back-off for rate limiting
+  if (response.status === 429) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      ttl = Math.min(Math.max(ttl, retryAfter), MAX_NEGATIVE_TTL);
+    }
+  }
+
+  try {
+    return await putNegativeCacheEntry(scope, scope === 'domain' ? domain : cacheKey, reason, ttl);
+  } catch (error) {
+    console.error('Negative cache store failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Remove the per-key negative entry (after a successful fetch)
+ */
+export async function clearNegativeCacheEntry(cacheKey: string): Promise<void> {
+  await caches.default.delete(getEntryRequest('key', cacheKey));
+}
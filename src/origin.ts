@@ -7,10 +7,11 @@
  * - Rely on caching to minimize origin requests
  * - Let customers whitelist if their origin blocks us
  *
- * SECURITY: Validates redirects to prevent SSRF attacks.
+ * SECURITY: Follows redirects manually and validates every hop before it is
+ * fetched, to prevent SSRF attacks.
  */
 
-import type { Env } from './types';
+import type { DomainConfig } from './types';
 import { validateUrlForFetch } from './validation';
 
 /**
@@ -21,7 +22,7 @@ import { validateUrlForFetch } from './validation';
  */
 const FALLBACK_HEADERS = {
   'User-Agent': 'ImgPro/1.0 (+https://img.pro/cdn)',
-  'Accept': 'image/*, video/*, audio/*, application/vnd.apple.mpegurl',
+  'Accept': 'image/*, video/*, audio/*, application/vnd.apple.mpegurl, application/dash+xml',
 } as const;
 
 /**
@@ -32,6 +33,7 @@ const FALLBACK_HEADERS = {
  * - Accept: Content negotiation (what formats they support)
  * - Accept-Language: Language preference
  * - Referer: Where the image is embedded (helps bypass anti-hotlinking)
+ *   (the CDN's own hotlink policy is enforced in hotlink.ts)
  *
  * NOT forwarded (by design):
  * - sec-ch-*: Client hints (WAF evasion territory)
@@ -87,17 +89,29 @@ function getForwardedHeaders(clientRequest?: Request): Record<string, string> {
   return forwarded;
 }
 
-export interface FetchResult {
+/** HTTP statuses that redirect to the Location header */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface OriginResponse {
   response: Response;
+  redirects: string[];  // URLs followed after the source URL, in order
+}
+
+export interface FetchResult extends OriginResponse {
   blocked: boolean;
   blockReason?: string;
 }
 
+/** Statuses WAF challenge pages are served with (200, or 403/503 from Cloudflare and others) */
+const CHALLENGE_PAGE_STATUSES = new Set([200, 403, 503]);
+
 /**
  * Detect if response is a block/challenge page instead of actual content
  *
  * WAFs often return 200 OK with HTML challenge pages.
  * This detects common patterns to avoid caching garbage.
+ * A small HTML page with any other status (a custom 404 or 500 page) is an
+ * error page for one path, not a challenge ('html_error_page').
  *
  * @param response - The fetch response
  * @param expectedCategory - Expected media category ('image' | 'video' | 'audio' | 'media')
@@ -111,8 +125,15 @@ function detectBlockedResponse(
 } {
   const contentType = (response.headers.get('content-type') || '').toLowerCase();
   const contentLength = response.headers.get('content-length');
+  const isHtml = contentType.includes('text/html');
+  const isSmall = contentLength !== null && parseInt(contentLength, 10) < 50000;
 
-  // Check for common WAF block status codes first
+  // Challenge pages first - a 403 challenge is a WAF decision, not a per-file 403
+  if (isHtml && isSmall && CHALLENGE_PAGE_STATUSES.has(response.status)) {
+    return { blocked: true, reason: 'html_challenge_page' };
+  }
+
+  // Check for common WAF block status codes
   if (response.status === 403 || response.status === 401) {
     return { blocked: true, reason: `http_${response.status}` };
   }
@@ -122,12 +143,9 @@ function detectBlockedResponse(
     return { blocked: true, reason: 'rate_limited' };
   }
 
-  // HTML response = challenge/block page (for any media type)
-  if (contentType.includes('text/html')) {
-    if (contentLength && parseInt(contentLength, 10) < 50000) {
-      return { blocked: true, reason: 'html_challenge_page' };
-    }
-    return { blocked: true, reason: 'html_instead_of_media' };
+  // Any other HTML response is an error page or wrong content (for any media type)
+  if (isHtml) {
+    return { blocked: true, reason: isSmall ? 'html_error_page' : 'html_instead_of_media' };
   }
 
   // Any text/* response is wrong for media
@@ -154,36 +172,63 @@ function detectBlockedResponse(
       return { blocked: true, reason: 'non_audio_content_type' };
     }
   }
-  // 'media' category accepts image/*, video/*, audio/*, and HLS types
+  // 'media' category accepts image/*, video/*, audio/*, HLS and DASH types
 
   return { blocked: false };
 }
 
+/**
+ * Check a redirect target before following it
+ *
+ * @throws Error if the target is not a safe URL or not an allowed origin
+ */
+async function validateRedirectHop(
+  target: string,
+  validateRedirect?: (finalUrl: string) => Promise<boolean>
+): Promise<void> {
+  const validation = validateUrlForFetch(target);
+  if (!validation.valid) {
+    throw new Error(`Redirect to invalid URL blocked: ${validation.reason}`);
+  }
+
+  // If custom validation provided (e.g., check against allowlist), use it
+  if (validateRedirect && !await validateRedirect(target)) {
+    throw new Error(`Redirect to non-allowed origin blocked: ${target}`);
+  }
+}
+
 /**
  * Fetch image from origin with timeout, redirect support, and security validation
  *
+ * Redirects are followed manually, up to config.maxRedirects hops: each
+ * Location is validated (SSRF rules and validateRedirect) before it is
+ * fetched. The timeout covers the whole redirect chain.
+ *
  * @param url - The source URL to fetch
- * @param env - Environment bindings
+ * @param config - The domain's effective config (timeout, redirects, User-Agent, client IP)
  * @param clientRequest - Optional original client request (for safe header forwarding)
  * @param timeout - Optional custom timeout in ms
- * @param validateRedirect - Optional function to validate the final URL after redirects
- * @returns FetchResult with response and block detection
- * @throws Error if timeout, invalid redirect, or fetch fails
+ * @param validateRedirect - Optional function to validate each redirect target
+ * @param extraHeaders - Optional request headers set by the worker itself
+ *                       (Range for partial fetches, If-None-Match for revalidation)
+ * @returns Final response and the redirect chain
+ * @throws Error if timeout, invalid redirect, too many redirects, or fetch fails
  */
 export async function fetchFromOrigin(
   url: string,
-  env: Env,
+  config: DomainConfig,
   clientRequest?: Request,
   timeout?: number,
-  validateRedirect?: (finalUrl: string) => Promise<boolean>
-): Promise<Response> {
+  validateRedirect?: (finalUrl: string) => Promise<boolean>,
+  extraHeaders?: Record<string, string>
+): Promise<OriginResponse> {
   // Validate URL before fetch (SSRF protection)
   const urlValidation = validateUrlForFetch(url);
   if (!urlValidation.valid) {
     throw new Error(`Invalid URL: ${urlValidation.reason}`);
   }
 
-  const fetchTimeout = timeout || parseInt(env.FETCH_TIMEOUT || '30000', 10);
+  const fetchTimeout = timeout || config.fetchTimeout;
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), fetchTimeout);
@@ -197,48 +242,62 @@ export async function fetchFromOrigin(
     ...forwardedHeaders,
   };
 
-  // Allow env override for User-Agent (for specific origin requirements)
+  // Allow config override for User-Agent (for specific origin requirements)
   // This should be used sparingly and documented
-  if (env.ORIGIN_USER_AGENT) {
-    headers['User-Agent'] = env.ORIGIN_USER_AGENT;
+  if (config.originUserAgent) {
+    headers['User-Agent'] = config.originUserAgent;
   }
 
   // Optional: Forward client IP if explicitly enabled
   // Default: OFF (privacy + reduces proxy signals)
-  if (env.FORWARD_CLIENT_IP === 'true' && clientRequest) {
+  if (config.forwardClientIp && clientRequest) {
     const clientIp = clientRequest.headers.get('cf-connecting-ip');
     if (clientIp) {
       headers['X-Forwarded-For'] = clientIp;
     }
   }
 
+  // Range and conditional headers are never forwarded from the client (see
+  // FORWARDED_HEADERS) - only set when the worker itself needs them
+  if (extraHeaders) {
+    Object.assign(headers, extraHeaders);
+  }
+
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers,
-      redirect: 'follow',
-    });
-
-    // Security: Validate final URL after redirects
-    const finalUrl = response.url;
-    if (finalUrl && finalUrl !== url) {
-      // URL changed due to redirect - validate the final destination
-      const validation = validateUrlForFetch(finalUrl);
-
-      if (!validation.valid) {
-        throw new Error(`Redirect to invalid URL blocked: ${validation.reason}`);
+    const redirects: string[] = [];
+    let currentUrl = url;
+
+    while (true) {
+      const response = await fetch(currentUrl, {
+        signal: controller.signal,
+        headers,
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location) {
+        return { response, redirects };
       }
 
-      // If custom validation provided (e.g., check against allowlist), use it
-      if (validateRedirect) {
-        const allowed = await validateRedirect(finalUrl);
-        if (!allowed) {
-          throw new Error(`Redirect to non-allowed origin blocked: ${finalUrl}`);
-        }
+      await response.body?.cancel();
+
+      if (redirects.length >= config.maxRedirects) {
+        throw new Error(`Redirect limit exceeded: more than ${config.maxRedirects} hops from ${url}`);
       }
-    }
 
-    return response;
+      // Security: validate every hop before it is fetched (relative Locations
+      // resolve against the current URL)
+      let target: string;
+      try {
+        target = new URL(location, currentUrl).href;
+      } catch {
+        throw new Error('Redirect to invalid URL blocked: unparseable Location');
+      }
+      await validateRedirectHop(target, validateRedirect);
+
+      redirects.push(target);
+      currentUrl = target;
+    }
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
       throw new Error(`Request timeout after ${fetchTimeout}ms`);
@@ -257,18 +316,20 @@ export async function fetchFromOrigin(
  */
 export async function fetchMediaFromOrigin(
   url: string,
-  env: Env,
+  config: DomainConfig,
   clientRequest?: Request,
   timeout?: number,
-  validateRedirect?: (finalUrl: string) => Promise<boolean>
+  validateRedirect?: (finalUrl: string) => Promise<boolean>,
+  extraHeaders?: Record<string, string>
 ): Promise<FetchResult> {
-  const response = await fetchFromOrigin(url, env, clientRequest, timeout, validateRedirect);
+  const { response, redirects } = await fetchFromOrigin(url, config, clientRequest, timeout, validateRedirect, extraHeaders);
 
   // Detect if we got a block/challenge page
   const blockCheck = detectBlockedResponse(response, 'media');
 
   return {
     response,
+    redirects,
     blocked: blockCheck.blocked,
     blockReason: blockCheck.reason,
   };
@@ -0,0 +1,330 @@
+/**
+ * Cache purge API
+ *
+ * Endpoints:
+ *   DELETE /{domain}/{path}      - Purge a single cached object
+ *   POST   /_admin/purge         - Purge many objects at once
+ *                                  Body: { "urls": ["https://example.com/a.jpg", ...] }
+ *   POST   /_admin/purge-prefix  - Purge everything under a path prefix or domain
+ *                                  Body: { "prefix": "example.com/wp-content/uploads/2025/" }
+ *
+ * All require "Authorization: Bearer <token>" (see auth.ts).
+ * A site token can only purge domains registered to that site.
+ *
+ * Responses report what was actually removed from R2, so a purge of
+ * something that was never cached is distinguishable from a real eviction.
+ * Purging an object also purges its transformed variants (?w=, ?h=, ...).
+ *
+ * Single and bulk purges also drop the key's negative-cache entry and
+ * freshness marker, so a fixed origin file is fetched again on the next
+ * request instead of redirecting until NEGATIVE_CACHE_TTL expires. Both live
+ * in the Cache API and are only cleared in the data center that handles the
+ * purge; elsewhere they expire on their own. A prefix purge only evicts R2.
+ *
+ * NOTE: Browsers and downstream caches may still hold a copy until its
+ * Cache-Control expires (a year for immutable objects, see freshness.ts).
+ */
+
+import type { Env, ParsedUrl, DomainConfig } from './types';
+import { parseUrl, isValidDomain, getDomainConfigRecord } from './validation';
+import { resolveDomainConfig } from './domain-config';
+import { deleteFromCache, deleteVariantsFromCache, deleteBatchFromCache } from './cache';
+import { clearNegativeCacheEntry } from './negative-cache';
+import { clearFreshnessMarker } from './freshness';
+import { getBearerToken, isAuthorizedForDomain } from './auth';
+import { errorResponse, jsonResponse } from './utils';
+
+/** Maximum URLs accepted in a single bulk purge request */
+const MAX_PURGE_URLS = 100;
+
+/** Keys listed and deleted per R2 round trip (R2 list/delete maximum) */
+const PREFIX_PURGE_BATCH_SIZE = 1000;
+
+/**
+ * Time budget for a single prefix purge call
+ *
+ * Large prefixes (a whole domain) can hold far more objects than one request
+ * can delete. Each call stops after this budget and reports done: false;
+ * the caller repeats the same request until done: true.
+ */
+const PREFIX_PURGE_TIME_BUDGET_MS = 20000;
+
+/**
+ * Purge result returned to callers
+ */
+export interface PurgeResult {
+  purged: string[];     // Cache keys that existed and were deleted
+  not_found: string[];  // Cache keys that were not cached
+  denied: string[];     // Inputs the token is not authorized to purge
+  invalid: string[];    // Inputs that could not be parsed
+}
+
+/**
+ * Prefix purge progress returned to callers
+ */
+export interface PrefixPurgeResult {
+  prefix: string;
+  deleted: number;   // Objects deleted by this call
+  batches: number;   // R2 list/delete round trips made by this call
+  done: boolean;     // false = more objects remain, repeat the request
+}
+
+/**
+ * Normalize a prefix purge input to a cache key prefix
+ *
+ * Cache keys are "{domain}{path}" (see parseUrl), so a prefix is the domain
+ * followed by a path prefix. A bare domain means the whole domain namespace.
+ * Accepts "example.com/uploads/", "example.com" or "https://example.com/uploads/".
+ *
+ * SECURITY: The domain is always terminated with "/" so "example.com" can
+ * never match keys of "example.community".
+ */
+function normalizePurgePrefix(input: string): { domain: string; prefix: string } | null {
+  const raw = input.trim().replace(/^https?:\/\//i, '');
+  const slashIndex = raw.indexOf('/');
+  const domain = (slashIndex === -1 ? raw : raw.substring(0, slashIndex)).toLowerCase();
+  const path = slashIndex === -1 ? '/' : raw.substring(slashIndex);
+
+  if (!isValidDomain(domain)) {
+    return null;
+  }
+
+  // Reject traversal segments - cache keys never contain them (see normalizePath)
+  if (path.split('/').some(segment => segment === '..' || segment === '.')) {
+    return null;
+  }
+
+  return { domain, prefix: `${domain}${path}` };
+}
+
+/**
+ * Resolve a purge input to a parsed CDN URL
+ *
+ * Accepts either form:
+ *   - CDN URL:    https://cdn.example.com/origin.com/images/photo.jpg
+ *   - Origin URL: https://origin.com/images/photo.jpg
+ *
+ * A URL on the worker's own host is treated as a CDN URL. The query string is
+ * kept, so objects cached under QUERY_CACHE_KEY parameters can be purged.
+ *
+ * @param config - The domain's effective config (query rules), once known
+ */
+function resolvePurgeTarget(
+  input: string,
+  workerHost: string,
+  env: Env,
+  config?: DomainConfig
+): ParsedUrl | null {
+  try {
+    const target = new URL(input);
+    const path = target.hostname === workerHost
+      ? target.pathname
+      : `/${target.hostname}${target.pathname}`;
+    return parseUrl(new URL(path + target.search, `https://${workerHost}`), env, config);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get a domain's effective config
+ *
+ * Its query rules decide which parameters are part of the cache key, and
+ * they may come from the domain's config record (see domain-config.ts).
+ */
+async function getPurgeConfig(env: Env, domain: string): Promise<DomainConfig> {
+  const record = env.ORIGINS_KV ? await getDomainConfigRecord(domain, env.ORIGINS_KV) : null;
+  return resolveDomainConfig(env, domain, record ?? undefined);
+}
+
+/**
+ * Drop a key's negative-cache entry and freshness marker in this data center
+ *
+ * Best effort: the purge result only reports R2 deletions.
+ */
+async function clearCacheState(cacheKey: string): Promise<void> {
+  await Promise.all([
+    clearNegativeCacheEntry(cacheKey),
+    clearFreshnessMarker(cacheKey),
+  ]).catch(error => console.error(`[Purge] Cache state clear failed for ${cacheKey}:`, error));
+}
+
+/**
+ * Handle DELETE /{domain}/{path}
+ */
+export async function handlePurgeRequest(
+  request: Request,
+  env: Env,
+  parsed: ParsedUrl
+): Promise<Response> {
+  const token = getBearerToken(request);
+  if (!token) {
+    return errorResponse('Authorization required', 401);
+  }
+
+  if (!await isAuthorizedForDomain(token, parsed.domain, env)) {
+    return errorResponse('Forbidden', 403);
+  }
+
+  const config = await getPurgeConfig(env, parsed.domain);
+  const { cacheKey } = parseUrl(new URL(request.url), env, config);
+
+  const [purged, variants] = await Promise.all([
+    deleteFromCache(env, cacheKey),
+    deleteVariantsFromCache(env, cacheKey),
+    clearCacheState(cacheKey),
+  ]);
+
+  const result: PurgeResult = {
+    purged: [...purged, ...variants],
+    not_found: purged.length === 0 && variants.length === 0 ? [cacheKey] : [],
+    denied: [],
+    invalid: [],
+  };
+
+  return jsonResponse(result);
+}
+
+/**
+ * Handle POST /_admin/purge
+ */
+export async function handleBulkPurge(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const token = getBearerToken(request);
+  if (!token) {
+    return errorResponse('Authorization required', 401);
+  }
+
+  let urls: unknown;
+  try {
+    const body = await request.json<{ urls?: unknown }>();
+    urls = body.urls;
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return errorResponse('Body must contain a non-empty "urls" array', 400);
+  }
+
+  if (urls.length > MAX_PURGE_URLS) {
+    return errorResponse(`Too many URLs (max ${MAX_PURGE_URLS} per request)`, 400);
+  }
+
+  const workerHost = new URL(request.url).hostname;
+  const result: PurgeResult = { purged: [], not_found: [], denied: [], invalid: [] };
+
+  // Authorize each domain and load its config once, even if many URLs share it
+  const authorizedDomains = new Map<string, boolean>();
+  const domainConfigs = new Map<string, DomainConfig>();
+  const keysToPurge = new Set<string>();
+
+  for (const input of urls) {
+    const parsed = typeof input === 'string' ? resolvePurgeTarget(input, workerHost, env) : null;
+    if (!parsed) {
+      result.invalid.push(String(input));
+      continue;
+    }
+
+    let authorized = authorizedDomains.get(parsed.domain);
+    if (authorized === undefined) {
+      authorized = await isAuthorizedForDomain(token, parsed.domain, env);
+      authorizedDomains.set(parsed.domain, authorized);
+    }
+
+    if (!authorized) {
+      result.denied.push(input as string);
+      continue;
+    }
+
+    let config = domainConfigs.get(parsed.domain);
+    if (!config) {
+      config = await getPurgeConfig(env, parsed.domain);
+      domainConfigs.set(parsed.domain, config);
+    }
+
+    // Parsed again under the domain's own query rules
+    const target = resolvePurgeTarget(input as string, workerHost, env, config) ?? parsed;
+    keysToPurge.add(target.cacheKey);
+  }
+
+  // Nothing authorized: the token is not valid for any requested domain
+  if (keysToPurge.size === 0 && result.denied.length > 0) {
+    return jsonResponse(result, 403);
+  }
+
+  const keys = Array.from(keysToPurge);
+  const [purged, variants] = await Promise.all([
+    deleteFromCache(env, keys),
+    Promise.all(keys.map(key => deleteVariantsFromCache(env, key))),
+    Promise.all(keys.map(clearCacheState)),
+  ]);
+
+  const purgedSet = new Set(purged);
+  result.purged = [...purged, ...variants.flat()];
+  result.not_found = keys.filter((key, i) => !purgedSet.has(key) && variants[i].length === 0);
+
+  return jsonResponse(result);
+}
+
+/**
+ * Handle POST /_admin/purge-prefix
+ *
+ * Pages through R2.list() under the prefix and deletes each page in one batch.
+ * Deleted keys drop out of the listing, so a repeated call simply continues
+ * with whatever remains - no cursor needs to be carried between calls.
+ */
+export async function handlePrefixPurge(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const token = getBearerToken(request);
+  if (!token) {
+    return errorResponse('Authorization required', 401);
+  }
+
+  let input: unknown;
+  try {
+    const body = await request.json<{ prefix?: unknown }>();
+    input = body.prefix;
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  const target = typeof input === 'string' ? normalizePurgePrefix(input) : null;
+  if (!target) {
+    return errorResponse('Body must contain a "prefix" starting with a valid domain', 400);
+  }
+
+  if (!await isAuthorizedForDomain(token, target.domain, env)) {
+    return errorResponse('Forbidden', 403);
+  }
+
+  const startTime = Date.now();
+  const result: PrefixPurgeResult = {
+    prefix: target.prefix,
+    deleted: 0,
+    batches: 0,
+    done: false,
+  };
+
+  while (Date.now() - startTime < PREFIX_PURGE_TIME_BUDGET_MS) {
+    const deleted = await deleteBatchFromCache(env, target.prefix, PREFIX_PURGE_BATCH_SIZE);
+    result.batches += 1;
+    result.deleted += deleted.count;
+
+    if (!deleted.truncated) {
+      result.done = true;
+      break;
+    }
+  }
+
+  console.log(
+    `[Purge] Prefix ${target.prefix}: deleted ${result.deleted} in ${result.batches} batches (done: ${result.done})`
+  );
+
+  // 202 Accepted signals the purge is still in progress
+  return jsonResponse(result, result.done ? 200 : 202);
+}
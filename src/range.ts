@@ -2,7 +2,8 @@
  * HTTP Range Request handling for media streaming
  *
  * Parses Range headers and builds 206 Partial Content responses.
- * Supports single-range requests only (multipart ranges are rare and complex).
+ * Supports single ranges and multi-range requests (multipart/byteranges).
+ * Multi-range sets are sorted and coalesced before serving.
  *
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Range_requests
  */
@@ -15,43 +16,33 @@ export interface RangeInfo {
 }
 
 /**
- * Parse HTTP Range header
+ * Maximum ranges served as multipart/byteranges (after coalescing)
  *
- * Supports formats:
- * - bytes=0-499      (first 500 bytes)
- * - bytes=500-999    (second 500 bytes)
- * - bytes=-500       (last 500 bytes)
- * - bytes=500-       (from byte 500 to end)
- * - bytes=0-         (full file, but indicates range support)
+ * Many tiny ranges cost one R2 read each and are a known amplification
+ * vector. Beyond this limit the Range header is ignored and the full
+ * file is served (allowed by RFC 9110 section 14.2).
+ */
+const MAX_RANGES = 16;
+
+/**
+ * Parse a single range spec (without the "bytes=" prefix)
  *
- * @param rangeHeader - The Range header value
- * @param totalSize - Total size of the resource in bytes
- * @returns RangeInfo or null if invalid/unsupported
+ * @returns RangeInfo, or null if malformed or unsatisfiable
  */
-export function parseRangeHeader(
-  rangeHeader: string | null,
-  totalSize: number
-): RangeInfo | null {
-  if (!rangeHeader || !rangeHeader.startsWith('bytes=')) {
+function parseRangeSpec(rangeSpec: string, totalSize: number): RangeInfo | null {
+  const dashIndex = rangeSpec.indexOf('-');
+  if (dashIndex === -1) {
     return null;
   }
 
-  // Extract the range spec (e.g., "0-499" from "bytes=0-499")
-  const rangeSpec = rangeHeader.substring(6).trim();
+  const startStr = rangeSpec.substring(0, dashIndex).trim();
+  const endStr = rangeSpec.substring(dashIndex + 1).trim();
 
-  // Only support single ranges (not multipart like "bytes=0-50, 100-150")
-  if (rangeSpec.includes(',')) {
-    return null;
-  }
-
-  const dashIndex = rangeSpec.indexOf('-');
-  if (dashIndex === -1) {
+  // Digits only - parseInt would otherwise accept "5abc" or "1e3"
+  if ((startStr && !/^\d+$/.test(startStr)) || (endStr && !/^\d+$/.test(endStr))) {
     return null;
   }
 
-  const startStr = rangeSpec.substring(0, dashIndex);
-  const endStr = rangeSpec.substring(dashIndex + 1);
-
   let start: number;
   let end: number;
 
@@ -78,7 +69,7 @@ export function parseRangeHeader(
 
   // Validate range
   if (start > end || start >= totalSize) {
-    return null; // Will trigger 416 Range Not Satisfiable
+    return null;
   }
 
   return {
@@ -89,6 +80,70 @@ export function parseRangeHeader(
   };
 }
 
+/**
+ * Parse HTTP Range header into a coalesced range set
+ *
+ * Supports single specs (bytes=0-499, bytes=500-, bytes=-500) and
+ * comma-separated multi-range requests like "bytes=0-99, 200-299, -100".
+ *
+ * - Unsatisfiable specs are dropped; the set is satisfiable if any spec is
+ * - Ranges are sorted and overlapping/adjacent ranges merged
+ * - More than MAX_RANGES ranges: header ignored, full file served as 200
+ *
+ * @param rangeHeader - The Range header value
+ * @param totalSize - Total size of the resource in bytes
+ * @returns Sorted, non-overlapping ranges; an empty array if invalid or
+ *          unsatisfiable (416); null if the header is ignored (missing,
+ *          another unit, or too many ranges)
+ */
+export function parseRangeSet(
+  rangeHeader: string | null,
+  totalSize: number
+): RangeInfo[] | null {
+  if (!rangeHeader || !rangeHeader.startsWith('bytes=')) {
+    return null;
+  }
+
+  const specs = rangeHeader.substring(6).split(',').map(spec => spec.trim());
+
+  // Any syntactically empty spec ("bytes=0-1,,5-6") makes the header invalid
+  if (specs.some(spec => spec === '')) {
+    return [];
+  }
+
+  const ranges = specs
+    .map(spec => parseRangeSpec(spec, totalSize))
+    .filter((range): range is RangeInfo => range !== null)
+    .sort((a, b) => a.start - b.start);
+
+  if (ranges.length === 0) {
+    return []; // Will trigger 416 Range Not Satisfiable
+  }
+
+  // Coalesce overlapping and adjacent ranges
+  const coalesced: RangeInfo[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = coalesced[coalesced.length - 1];
+    if (range.start <= last.end + 1) {
+      const end = Math.max(last.end, range.end);
+      coalesced[coalesced.length - 1] = {
+        start: last.start,
+        end,
+        length: end - last.start + 1,
+        isPartial: !(last.start === 0 && end === totalSize - 1),
+      };
+    } else {
+      coalesced.push(range);
+    }
+  }
+
+  if (coalesced.length > MAX_RANGES) {
+    return null;
+  }
+
+  return coalesced;
+}
+
 /**
  * Build Content-Range header value
  *
@@ -102,3 +157,43 @@ export function buildContentRangeHeader(
   return `bytes ${start}-${end}/${totalSize}`;
 }
 
+/**
+ * Layout of a multipart/byteranges response body
+ *
+ * Body = for each range: partHeaders[i] + range bytes, then trailer.
+ * contentLength is exact, so the body can be sent with Content-Length.
+ */
+export interface MultipartByterangesLayout {
+  boundary: string;
+  partHeaders: string[];
+  trailer: string;
+  contentLength: number;
+}
+
+/**
+ * Compute multipart/byteranges framing for a set of ranges
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#name-media-type-multipart-byteranges
+ */
+export function buildMultipartByterangesLayout(
+  ranges: RangeInfo[],
+  totalSize: number,
+  contentType: string
+): MultipartByterangesLayout {
+  const boundary = `imgpro-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+
+  const partHeaders = ranges.map((range, i) =>
+    `${i === 0 ? '' : '\r\n'}--${boundary}\r\n` +
+    `Content-Type: ${contentType}\r\n` +
+    `Content-Range: ${buildContentRangeHeader(range.start, range.end, totalSize)}\r\n\r\n`
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+
+  const contentLength =
+    partHeaders.reduce((sum, header) => sum + encoder.encode(header).byteLength, 0) +
+    ranges.reduce((sum, range) => sum + range.length, 0) +
+    encoder.encode(trailer).byteLength;
+
+  return { boundary, partHeaders, trailer, contentLength };
+}
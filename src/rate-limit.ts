@@ -0,0 +1,192 @@
+/**
+ * Rate limiting utilities
+ *
+ * Checks requests against RateLimiter Durable Objects (see rate-limiter.ts).
+ * Two budgets, each with two scopes:
+ *
+ *   requests - every request, including cache hits (checked in parallel
+ *              with the cache lookup, so hits wait for no extra round trip)
+ *   misses   - origin fetches only (checked before fetching)
+ *
+ *   ip       - one client IP (cf-connecting-ip) on one origin domain
+ *   domain   - one origin domain, all clients together
+ *
+ * Configuration ("count/seconds" per scope, unset = unlimited):
+ *   RATE_LIMIT_REQUESTS - "ip=600/60,domain=20000/60"
+ *   RATE_LIMIT_MISSES   - "ip=60/60,domain=2000/60"
+ *   RATE_LIMIT_ACTION   - "429" (default, with Retry-After) or "redirect" (to origin)
+ * A domain's KV config record can override each scope (see domain-config.ts).
+ *
+ * Requires the RATE_LIMITER binding; without it nothing is limited. A failing
+ * limiter lets requests through - rate limiting must never break the CDN.
+ */
+
+import type { Env, RateLimit, RateLimits } from './types';
+import type { RateLimitDecision } from './rate-limiter';
+import { errorResponse } from './utils';
+
+export type RateLimitBudget = 'requests' | 'misses';
+
+/**
+ * Rate limit check result
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number;             // Seconds (0 if allowed)
+  scope?: keyof RateLimits;       // Scope that rejected the request
+}
+
+const RATE_LIMIT_SCOPES: (keyof RateLimits)[] = ['ip', 'domain'];
+
+/**
+ * Parse one rate limit value: "count/seconds"
+ *
+ * @returns Rate limit, null for "off", undefined if not a valid value
+ */
+function parseRateLimit(value: string): RateLimit | null | undefined {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'off') return null;
+
+  const match = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (!match) return undefined;
+
+  const limit = parseInt(match[1], 10);
+  const window = parseInt(match[2], 10);
+  return limit > 0 && window > 0 ? { limit, window } : undefined;
+}
+
+/**
+ * Parse a rate limit setting: "ip=600/60,domain=off"
+ *
+ * @returns Limits for the scopes the setting mentions, or null if malformed
+ */
+export function parseRateLimits(setting: string): Partial<RateLimits> | null {
+  const limits: Partial<RateLimits> = {};
+
+  for (const entry of setting.split(',')) {
+    if (entry.trim() === '') continue;
+
+    const [scope, value] = entry.split('=').map(part => part.trim());
+    if (!RATE_LIMIT_SCOPES.includes(scope as keyof RateLimits) || value === undefined) {
+      return null;
+    }
+
+    const limit = parseRateLimit(value);
+    if (limit === undefined) return null;
+    limits[scope as keyof RateLimits] = limit;
+  }
+
+  return limits;
+}
+
+/**
+ * Merge a domain's rate limit override over the env setting, per scope
+ */
+export function resolveRateLimits(envSetting: string | undefined, override?: string): RateLimits {
+  const defaults = envSetting ? parseRateLimits(envSetting) : null;
+  const overrides = override ? parseRateLimits(override) : null;
+
+  if (envSetting && !defaults) {
+    console.error(`Ignoring malformed rate limit setting: ${envSetting}`);
+  }
+
+  return {
+    ip: overrides?.ip !== undefined ? overrides.ip : defaults?.ip ?? null,
+    domain: overrides?.domain !== undefined ? overrides.domain : defaults?.domain ?? null,
+  };
+}
+
+/**
+ * Count a request against one rate limit key
+ */
+async function checkKey(
+  namespace: DurableObjectNamespace,
+  key: string,
+  rateLimit: RateLimit
+): Promise<RateLimitDecision> {
+  const stub = namespace.get(namespace.idFromName(key));
+
+  try {
+    const response = await stub.fetch(new Request('https://rate-limiter/check', {
+      method: 'POST',
+      body: JSON.stringify(rateLimit),
+    }));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`Rate limiter check failed for ${key}:`, error);
+    return { allowed: true, retryAfter: 0 };
+  }
+}
+
+/**
+ * Count a request against a budget (all configured scopes, in parallel)
+ *
+ * @param env - Environment bindings
+ * @param limits - The domain's limits for this budget
+ * @param budget - Budget name (part of the key, so budgets never share counters)
+ * @param domain - Origin domain
+ * @param clientIp - Client IP, or null if unknown (ip scope is skipped)
+ */
+export async function checkRateLimit(
+  env: Env,
+  limits: RateLimits,
+  budget: RateLimitBudget,
+  domain: string,
+  clientIp: string | null
+): Promise<RateLimitResult> {
+  const namespace = env.RATE_LIMITER;
+  if (!namespace) {
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  const checks: Promise<RateLimitResult>[] = [];
+  if (limits.ip && clientIp) {
+    checks.push(checkKey(namespace, `${budget}:ip:${domain}:${clientIp}`, limits.ip)
+      .then(decision => ({ ...decision, scope: 'ip' as const })));
+  }
+  if (limits.domain) {
+    checks.push(checkKey(namespace, `${budget}:domain:${domain}`, limits.domain)
+      .then(decision => ({ ...decision, scope: 'domain' as const })));
+  }
+
+  const results = await Promise.all(checks);
+  const rejected = results.filter(result => !result.allowed);
+  if (rejected.length === 0) {
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  return rejected.reduce((longest, result) => result.retryAfter > longest.retryAfter ? result : longest);
+}
+
+/**
+ * Build the response for a rate-limited request
+ *
+ * @param corsHeaders - The domain's CORS headers (see getDomainCORSHeaders)
+ */
+export function createRateLimitResponse(
+  result: RateLimitResult,
+  action: '429' | 'redirect',
+  sourceUrl: string,
+  corsHeaders: Record<string, string>
+): Response {
+  if (action === 'redirect') {
+    return new Response(null, {
+      status: 302,
+      headers: {
+        'Location': sourceUrl,
+        'Cache-Control': 'no-store, no-cache, must-revalidate',
+        'X-ImgPro-Status': 'redirect',
+        'X-ImgPro-Redirect-Reason': 'rate-limit',
+        ...corsHeaders,
+      },
+    });
+  }
+
+  const response = errorResponse('Too many requests', 429, corsHeaders);
+  response.headers.set('Retry-After', result.retryAfter.toString());
+  response.headers.set('Cache-Control', 'no-store');
+  return response;
+}
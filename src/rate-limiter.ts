@@ -0,0 +1,106 @@
+/**
+ * Rate Limiter Durable Object
+ *
+ * Each rate limit key (e.g. one client IP on one domain, or one domain) gets
+ * its own Durable Object instance that counts requests in a sliding window.
+ *
+ * Algorithm (sliding window counter):
+ * - Requests are counted in fixed windows of `window` seconds
+ * - The estimate weights the previous window by how much of it still
+ *   overlaps the sliding window: previous * (1 - elapsed / window) + current
+ * - A request is allowed while the estimate is below `limit`
+ *
+ * State:
+ * - Counters live in memory only - no storage writes per request
+ * - Eviction (after a period without requests) resets the counters, which
+ *   only affects keys that were idle anyway
+ *
+ * The worker sends the limit with every check, so configuration changes
+ * apply immediately without touching the DO.
+ */
+
+import type { Env, RateLimit } from './types';
+
+export interface RateLimitDecision {
+	allowed: boolean;
+	retryAfter: number;  // Seconds until a request would be allowed (0 if allowed)
+}
+
+export class RateLimiter implements DurableObject {
+	private windowStart: number = 0;
+	private windowMs: number = 0;
+	private current: number = 0;
+	private previous: number = 0;
+
+	constructor(_state: DurableObjectState, _env: Env) {}
+
+	/**
+	 * Count one request against the limit
+	 *
+	 * Rejected requests are not counted, so a client that backs off
+	 * regains its budget.
+	 */
+	async fetch(request: Request): Promise<Response> {
+		try {
+			const rateLimit: RateLimit = await request.json();
+			const decision = this.check(rateLimit, Date.now());
+			return new Response(JSON.stringify(decision), {
+				headers: { 'Content-Type': 'application/json' },
+			});
+		} catch (err) {
+			console.error('Rate limiter fetch error:', err);
+			return new Response('Error', { status: 500 });
+		}
+	}
+
+	private check({ limit, window }: RateLimit, now: number): RateLimitDecision {
+		const windowMs = window * 1000;
+		const windowStart = Math.floor(now / windowMs) * windowMs;
+
+		// Window length changed (configuration update): start over
+		if (windowMs !== this.windowMs) {
+			this.windowMs = windowMs;
+			this.windowStart = windowStart;
+			this.current = 0;
+			this.previous = 0;
+		}
+
+		// Roll the window forward; more than one window later, nothing overlaps
+		if (windowStart !== this.windowStart) {
+			this.previous = windowStart - this.windowStart === windowMs ? this.current : 0;
+			this.current = 0;
+			this.windowStart = windowStart;
+		}
+
+		const elapsed = now - windowStart;
+		const estimate = this.previous * (1 - elapsed / windowMs) + this.current;
+
+		if (estimate < limit) {
+			this.current += 1;
+			return { allowed: true, retryAfter: 0 };
+		}
+
+		return { allowed: false, retryAfter: this.getRetryAfter(limit, elapsed) };
+	}
+
+	/**
+	 * Seconds until the estimate drops below the limit
+	 *
+	 * Within the current window the previous window's weight keeps shrinking;
+	 * if the current window alone is full, the client must wait until enough
+	 * of it has slid out during the next one.
+	 */
+	private getRetryAfter(limit: number, elapsed: number): number {
+		let waitMs: number;
+		if (this.current < limit) {
+			// previous * (1 - t / window) + current < limit
+			const t = this.windowMs * (1 - (limit - this.current) / this.previous);
+			waitMs = t - elapsed;
+		} else {
+			// Next window: current * (1 - t / window) < limit
+			const t = this.windowMs * (1 - limit / this.current);
+			waitMs = this.windowMs - elapsed + t;
+		}
+		return Math.max(1, Math.ceil(waitMs / 1000));
+	}
+}
@@ -0,0 +1,186 @@
+/**
+ * Signed, expiring CDN URLs
+ *
+ * A domain can require every CDN URL to carry an expiry and an HMAC
+ * signature, so a copied link stops working once it expires:
+ *
+ *   /origin.com/courses/intro.mp4?expires=1767225600&sig=Xq3...
+ *
+ *   expires - Unix time (seconds) after which the URL is rejected
+ *   sig     - base64url HMAC-SHA256 of the canonical URL (see getCanonicalUrl)
+ *
+ * Keys are per domain, stored in ORIGINS_KV under "signing:{domain}" next
+ * to the domain's DomainRecords (see SigningConfig). Several keys can be
+ * active at once: a URL is valid if any of them produced its signature,
+ * so keys can be rotated without breaking URLs already handed out.
+ *
+ * The signature covers the path and every query parameter except sig
+ * itself (including w/h/q and expires), so a signed URL cannot be altered.
+ *
+ * SECURITY: Signatures are compared with secureCompare() (constant time).
+ * Responses to signed URLs are private and expire with the URL (see
+ * getCacheControlHeader). Domains without signing keys are not affected.
+ *
+ * NOTE: Streaming manifests are not re-signed. A cached HLS/DASH manifest is
+ * shared by every viewer, and its rewritten segment URIs (see manifest.ts)
+ * carry no expires/sig - DASH segment templates could not be signed per URL
+ * anyway. Segments must therefore be exempt: on domains that serve manifests,
+ * list only the manifests' (or the page's entry points') prefixes in
+ * path_prefixes and keep segments outside of them.
+ *
+ * signUrl() only needs WebCrypto, so backends (Node 18+, Deno, Workers)
+ * can import it to generate signed URLs.
+ */
+
+import type { Env, SigningConfig } from './types';
+import { secureCompare } from './auth';
+
+/** KV key prefix for signing configs (domain names never contain ":") */
+const SIGNING_KV_PREFIX = 'signing:';
+
+/**
+ * Signature check result
+ */
+export interface SignatureValidationResult {
+  valid: boolean;
+  reason: 'not_required' | 'valid' | 'missing' | 'expired' | 'invalid';
+  keyId?: string;
+  expiresAt?: number;   // Unix time (seconds) of a valid signed URL's expiry
+}
+
+/**
+ * Canonical form of a CDN URL for signing
+ *
+ * Path plus query parameters without sig, sorted by name, so parameter
+ * order does not change the signature. The host is excluded: the same
+ * signed path works on every hostname of the worker.
+ */
+function getCanonicalUrl(url: URL): string {
+  const params = new URLSearchParams(url.searchParams);
+  params.delete('sig');
+  params.sort();
+  return `${url.pathname}?${params.toString()}`;
+}
+
+/**
+ * HMAC-SHA256 of a string, as base64url without padding
+ */
+async function hmacBase64Url(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+
+  let binary = '';
+  for (const byte of signature) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Generate a signed CDN URL
+ *
+ * @param url - CDN URL, e.g. "https://cdn.example.com/origin.com/video.mp4?w=400"
+ * @param secret - One of the domain's active signing keys
+ * @param expiresAt - Expiry as a Date or Unix time in seconds
+ * @returns The URL with expires and sig parameters added
+ *
+ * @example
+ *   await signUrl('https://cdn.example.com/origin.com/courses/intro.mp4', secret, Date.now() / 1000 + 3600)
+ */
+export async function signUrl(
+  url: string | URL,
+  secret: string,
+  expiresAt: Date | number
+): Promise<string> {
+  const signed = new URL(url.toString());
+  const expires = expiresAt instanceof Date ? expiresAt.getTime() / 1000 : expiresAt;
+
+  signed.searchParams.delete('sig');
+  signed.searchParams.set('expires', Math.floor(expires).toString());
+  signed.searchParams.set('sig', await hmacBase64Url(secret, getCanonicalUrl(signed)));
+
+  return signed.toString();
+}
+
+/**
+ * Get the signing config for a domain from KV
+ *
+ * Uses the same 60s edge cache as getDomainRecords().
+ *
+ * @returns Config, or null if the domain does not use signed URLs
+ */
+export async function getSigningConfig(
+  domain: string,
+  kv: KVNamespace
+): Promise<SigningConfig | null> {
+  try {
+    const value = await kv.get(`${SIGNING_KV_PREFIX}${domain}`, { cacheTtl: 60 });
+    if (!value) return null;
+
+    const config = JSON.parse(value) as SigningConfig;
+    return Array.isArray(config.keys) && config.keys.length > 0 ? config : null;
+  } catch (error) {
+    console.error('KV signing config lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Check if a path requires a signature under a signing config
+ */
+function isSignatureRequired(config: SigningConfig, path: string): boolean {
+  if (!config.path_prefixes || config.path_prefixes.length === 0) {
+    return true;
+  }
+  return config.path_prefixes.some(prefix => path.startsWith(prefix));
+}
+
+/**
+ * Validate the signature of a CDN request
+ *
+ * @param url - Request URL
+ * @param domain - Origin domain (from parseUrl)
+ * @param path - Normalized origin path (from parseUrl)
+ */
+export async function validateSignature(
+  url: URL,
+  domain: string,
+  path: string,
+  env: Env
+): Promise<SignatureValidationResult> {
+  if (!env.ORIGINS_KV) {
+    return { valid: true, reason: 'not_required' };
+  }
+
+  const config = await getSigningConfig(domain, env.ORIGINS_KV);
+  if (!config || !isSignatureRequired(config, path)) {
+    return { valid: true, reason: 'not_required' };
+  }
+
+  const expires = url.searchParams.get('expires');
+  const sig = url.searchParams.get('sig');
+  if (!expires || !sig) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  if (!/^\d+$/.test(expires) || parseInt(expires, 10) * 1000 < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const canonical = getCanonicalUrl(url);
+  for (const key of config.keys) {
+    if (!key.secret) continue;
+    if (await secureCompare(sig, await hmacBase64Url(key.secret, canonical))) {
+      return { valid: true, reason: 'valid', keyId: key.id, expiresAt: parseInt(expires, 10) };
+    }
+  }
+
+  return { valid: false, reason: 'invalid' };
+}
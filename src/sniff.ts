@@ -0,0 +1,261 @@
+/**
+ * Content sniffing: verify origin bodies by their magic bytes
+ *
+ * The origin's Content-Type is not proof of what the body contains - a
+ * misconfigured WAF can answer with an HTML page labeled image/jpeg, which
+ * would then be cached for a year. Before anything is cached, the first
+ * bytes of the body are read (never the whole body) and compared with the
+ * declared type:
+ *
+ *   - signature of the declared kind       -> kept as declared
+ *   - signature of another media type      -> corrected to the sniffed type
+ *   - HTML / JSON where media was declared -> rejected
+ *   - no signature for a verifiable type   -> rejected
+ *   - types without a signature check      -> kept as declared
+ *     (SVG, DASH MPD, BMP, TIFF, ICO, ...), as are empty bodies
+ *
+ * Verified: JPEG, PNG, GIF, WebP, AVIF/HEIF, JPEG XL, MP4 (ISO BMFF, incl.
+ * fragmented segments), WebM/Matroska, Ogg, MP3, AAC (ADTS), FLAC, WAV,
+ * MPEG-TS and HLS playlists.
+ */
+
+/** Bytes read before deciding (MPEG-TS needs the second sync byte at 188) */
+const SNIFF_LENGTH = 512;
+
+/** ISO BMFF box types that can start a file or a fragmented segment */
+const ISO_BMFF_BOXES = new Set(['ftyp', 'styp', 'moov', 'moof', 'sidx', 'mdat', 'free', 'skip', 'wide', 'emsg', 'prft']);
+
+/** ISO BMFF brands of HEIF images (AVIF brands are checked first) */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+/**
+ * Declared content types by format family
+ *
+ * A declared type matches a sniffed type of the same family (audio/mp4 and
+ * video/mp4 are both ISO BMFF). Types not listed cannot be verified.
+ */
+const FAMILIES: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/heic': 'heif',
+  'image/heif': 'heif',
+  'image/jxl': 'jxl',
+  'video/mp4': 'isobmff',
+  'video/quicktime': 'isobmff',
+  'video/x-m4v': 'isobmff',
+  'video/iso.segment': 'isobmff',
+  'audio/mp4': 'isobmff',
+  'audio/x-m4a': 'isobmff',
+  'audio/iso.segment': 'isobmff',
+  'video/webm': 'matroska',
+  'video/x-matroska': 'matroska',
+  'audio/webm': 'matroska',
+  'video/ogg': 'ogg',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+  'audio/wav': 'wav',
+  'video/mp2t': 'mpegts',
+  'application/vnd.apple.mpegurl': 'm3u8',
+  'application/x-mpegurl': 'm3u8',
+  'audio/mpegurl': 'm3u8',
+  'audio/x-mpegurl': 'm3u8',
+};
+
+export interface SniffResult {
+  body: ReadableStream<Uint8Array>;  // The complete body, sniffed bytes included
+  sniffedType: string | null;        // Type detected from the signature, null if none
+  contentType: string | null;        // Type to cache and serve with, null = rejected
+  reason?: string;                   // Why the body was rejected
+}
+
+/**
+ * Join stream chunks into one buffer
+ */
+function concatChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Read the first bytes of a stream without consuming it
+ *
+ * @param length - Bytes to read at most (plus the rest of the last chunk)
+ * @param isComplete - Stop early once the bytes read so far are enough
+ * @returns The bytes read, and a stream that replays them before the rest
+ */
+export async function readHead(
+  stream: ReadableStream<Uint8Array>,
+  length: number,
+  isComplete?: (head: Uint8Array) => boolean
+): Promise<{ head: Uint8Array; body: ReadableStream<Uint8Array> }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let done = false;
+
+  while (size < length) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    chunks.push(result.value);
+    size += result.value.byteLength;
+    if (isComplete?.(concatChunks(chunks, size))) break;
+  }
+
+  const head = concatChunks(chunks, size);
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (size > 0) controller.enqueue(head);
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { head, body };
+}
+
+/**
+ * Read `length` bytes at `offset` as ASCII
+ */
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Skip a UTF-8 byte order mark and leading whitespace
+ */
+function getTextStart(bytes: Uint8Array): string {
+  let offset = bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF ? 3 : 0;
+  while (offset < bytes.length && [0x09, 0x0A, 0x0D, 0x20].includes(bytes[offset])) {
+    offset++;
+  }
+  return ascii(bytes, offset, 64);
+}
+
+/**
+ * Detect the type of an ISO BMFF file from its ftyp brands
+ */
+function detectIsoBmffType(bytes: Uint8Array): string {
+  if (ascii(bytes, 4, 4) !== 'ftyp') {
+    return 'video/mp4';  // Fragmented segment (styp, moof, ...)
+  }
+
+  // Major brand at 8, minor version at 12, compatible brands from 16
+  const boxSize = Math.min((bytes[0] << 24 | bytes[1] << 16 | bytes[2] << 8 | bytes[3]) >>> 0, bytes.length);
+  const brands = [ascii(bytes, 8, 4)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(ascii(bytes, offset, 4));
+  }
+
+  if (brands.some(brand => brand === 'avif' || brand === 'avis')) return 'image/avif';
+  if (HEIF_BRANDS.has(brands[0])) return 'image/heif';
+  if (brands[0] === 'qt  ') return 'video/quicktime';
+  if (brands[0].startsWith('M4A')) return 'audio/mp4';
+  return 'video/mp4';
+}
+
+/**
+ * Detect a media type from the first bytes of a file
+ *
+ * @returns MIME type, or null if no known signature matches
+ */
+export function detectContentType(bytes: Uint8Array): string | null {
+  const b = bytes;
+
+  if (b[0] === 0xFF && b[1] === 0xD8 && b[2] === 0xFF) return 'image/jpeg';
+  if (ascii(b, 0, 8) === '\x89PNG\r\n\x1A\n') return 'image/png';
+  if (ascii(b, 0, 6) === 'GIF87a' || ascii(b, 0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 4) === 'WAVE') return 'audio/wav';
+  if ((b[0] === 0xFF && b[1] === 0x0A) || ascii(b, 0, 12) === '\x00\x00\x00\x0CJXL \r\n\x87\n') return 'image/jxl';
+  if (b.length >= 8 && ISO_BMFF_BOXES.has(ascii(b, 4, 4))) return detectIsoBmffType(b);
+  if (b[0] === 0x1A && b[1] === 0x45 && b[2] === 0xDF && b[3] === 0xA3) {
+    // EBML header: the DocType tells WebM from Matroska
+    return ascii(b, 0, Math.min(b.length, 64)).includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+  if (ascii(b, 0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(b, 0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(b, 0, 3) === 'ID3') return 'audio/mpeg';
+  if (b[0] === 0xFF && (b[1] & 0xE0) === 0xE0) {
+    // MPEG audio frame sync: layer bits 00 = ADTS (AAC), otherwise MP3
+    return (b[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mpeg';
+  }
+  if (b[0] === 0x47 && b[188] === 0x47) return 'video/mp2t';
+  if (getTextStart(b).startsWith('#EXTM3U')) return 'application/vnd.apple.mpegurl';
+
+  return null;
+}
+
+/**
+ * Check if a file starts like an HTML or JSON document
+ */
+function isDocument(bytes: Uint8Array): boolean {
+  const start = getTextStart(bytes).toLowerCase();
+  return start.startsWith('<!doctype html') ||
+         start.startsWith('<html') ||
+         start.startsWith('<head') ||
+         start.startsWith('<body') ||
+         start.startsWith('{') ||
+         start.startsWith('[');
+}
+
+/**
+ * Verify an origin body against its declared content type
+ *
+ * Reads at most SNIFF_LENGTH bytes (plus the rest of the chunk they arrive
+ * in); the returned body still contains everything.
+ *
+ * @param stream - Origin response body
+ * @param declaredType - Content type from the origin (see getEffectiveContentType)
+ */
+export async function sniffContent(
+  stream: ReadableStream<Uint8Array>,
+  declaredType: string
+): Promise<SniffResult> {
+  const { head, body } = await readHead(stream, SNIFF_LENGTH);
+  const declared = declaredType.toLowerCase().split(';')[0].trim();
+  const sniffedType = detectContentType(head);
+
+  if (head.byteLength === 0) {
+    return { body, sniffedType, contentType: declaredType };
+  }
+
+  if (sniffedType) {
+    const sameFamily = FAMILIES[declared] !== undefined && FAMILIES[declared] === FAMILIES[sniffedType];
+    return { body, sniffedType, contentType: sameFamily ? declaredType : sniffedType };
+  }
+
+  if (isDocument(head)) {
+    return { body, sniffedType, contentType: null, reason: 'document_instead_of_media' };
+  }
+
+  if (FAMILIES[declared] !== undefined) {
+    return { body, sniffedType, contentType: null, reason: 'signature_mismatch' };
+  }
+
+  return { body, sniffedType, contentType: declaredType };
+}
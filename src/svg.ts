@@ -0,0 +1,221 @@
+/**
+ * SVG sanitization
+ *
+ * SVG is a document format: it can carry scripts, event handlers and links
+ * that run on whatever hostname serves it - here, the CDN's. A compromised
+ * origin must not be able to plant script on the CDN domain, so SVGs are
+ * sanitized once on ingest and only the sanitized copy is cached:
+ *
+ *   - Removed with their content: script, foreignObject, iframe, embed,
+ *     object and other embedding elements, and animations that target
+ *     event handlers or links
+ *   - Removed attributes: on* event handlers, links that are not local
+ *     fragments (#id) or raster data: URLs, and values with javascript:
+ *   - Styles: @import and external url() references removed
+ *   - Removed: DOCTYPE (entity definitions), comments and processing
+ *     instructions other than the XML declaration
+ *
+ * Media responses also carry a sandboxing CSP (see getMediaSecurityHeaders),
+ * which covers SVGs cached before sanitization existed.
+ */
+
+import { createSizeLimitedStream } from './origin';
+
+/** Largest SVG that is sanitized (buffered in memory) - larger ones are not cached */
+const MAX_SVG_SIZE = 5 * 1024 * 1024;
+
+/** Elements removed together with everything inside them */
+const BLOCKED_ELEMENTS = new Set([
+  'script', 'foreignobject', 'iframe', 'frame', 'frameset', 'embed', 'object',
+  'applet', 'base', 'link', 'meta', 'handler', 'listener',
+]);
+
+/** Animation elements - removed when they animate a handler or link attribute */
+const ANIMATION_ELEMENTS = new Set(['animate', 'set', 'animatemotion', 'animatetransform', 'animatecolor']);
+
+/** Attributes (local names) holding URLs */
+const URL_ATTRIBUTES = new Set(['href', 'src', 'base', 'action', 'formaction']);
+
+/** Tokens: comment, CDATA, DOCTYPE, processing instruction, tag, text, stray "<" */
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)|<!DOCTYPE(?:[^>[]|\[[\s\S]*?\])*>?|<\?[\s\S]*?(?:\?>|$)|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</gi;
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n',
+};
+
+/**
+ * Check if content type is SVG
+ */
+export function isSvgContentType(contentType: string): boolean {
+  return contentType.toLowerCase().split(';')[0].trim() === 'image/svg+xml';
+}
+
+/**
+ * Get the local part of a (possibly prefixed) XML name, lowercased
+ *
+ * @example "svg:script" -> "script", "xlink:href" -> "href"
+ */
+function getLocalName(name: string): string {
+  const lower = name.toLowerCase();
+  return lower.slice(lower.lastIndexOf(':') + 1);
+}
+
+/**
+ * Normalize an attribute value for checks: entities decoded,
+ * whitespace and control characters removed, lowercased
+ *
+ * "jav&#x61;&#9;script:" -> "javascript:"
+ */
+function normalizeValue(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16) % 0x110000))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10) % 0x110000))
+    .replace(/&([a-z]+);/gi, (entity, name) => NAMED_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[\u0000-\u0020\u007F]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Check if a URL stays inside the document: a fragment, or an inline raster image
+ */
+function isSafeUrl(url: string): boolean {
+  const normalized = normalizeValue(url);
+  return normalized.startsWith('#') || /^data:image\/(png|jpeg|gif|webp|avif);/.test(normalized);
+}
+
+/**
+ * Remove external references and script from CSS
+ */
+function sanitizeCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?(?:\*\/|$)/g, '')
+    // CSS escapes could spell url( or @import - decode them before checking
+    .replace(/\\([0-9a-f]{1,6})\s?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16) % 0x110000))
+    .replace(/\\(.)/g, '$1')
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(["']?)([^)]*?)\1\s*\)/gi, (match, _quote, url) => isSafeUrl(url) ? match : 'none')
+    .replace(/expression\s*\(|javascript:|vbscript:/gi, '');
+}
+
+/**
+ * Sanitize the attributes of one element
+ *
+ * @returns Attribute string to output, or null if the element must be removed
+ */
+function sanitizeAttributes(localName: string, attributes: string): string | null {
+  let output = '';
+
+  for (const match of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted;
+    const attributeName = getLocalName(name);
+
+    if (value === undefined) {
+      output += ` ${name}`;
+      continue;
+    }
+
+    const normalized = normalizeValue(value);
+
+    // Animations can turn any attribute into a handler or a javascript: link
+    if (ANIMATION_ELEMENTS.has(localName) && attributeName === 'attributename' &&
+        (normalized.startsWith('on') || URL_ATTRIBUTES.has(getLocalName(normalized)))) {
+      return null;
+    }
+
+    if (attributeName.startsWith('on')) continue;
+    if (URL_ATTRIBUTES.has(attributeName) && !isSafeUrl(value)) continue;
+    if (normalized.includes('javascript:') || normalized.includes('vbscript:')) continue;
+
+    const safeValue = attributeName === 'style' ? sanitizeCss(value) : value;
+    output += ` ${name}="${safeValue.replace(/"/g, '&quot;')}"`;
+  }
+
+  return output;
+}
+
+/**
+ * Sanitize an SVG document
+ *
+ * @returns Sanitized SVG, or null if the document's root element is not <svg>
+ */
+export function sanitizeSvg(svg: string): string | null {
+  const output: string[] = [];
+  let rootName: string | null = null;
+  let skipDepth = 0;   // > 0 inside a removed element
+  let styleDepth = 0;  // > 0 inside <style>
+
+  for (const match of svg.matchAll(TOKEN_PATTERN)) {
+    const [token, cdata, closing, name, attributes, selfClosing] = match;
+
+    // Comments, DOCTYPE, processing instructions, CDATA and text
+    if (name === undefined) {
+      if (skipDepth > 0 || token.startsWith('<!--') || /^<!DOCTYPE/i.test(token)) continue;
+
+      if (token.startsWith('<?')) {
+        if (output.length === 0 && /^<\?xml\s/.test(token)) output.push(token);
+      } else if (cdata !== undefined) {
+        output.push(styleDepth > 0 ? `<![CDATA[${sanitizeCss(cdata)}]]>` : token);
+      } else if (token === '<') {
+        output.push('&lt;');
+      } else {
+        output.push(styleDepth > 0 ? sanitizeCss(token) : token);
+      }
+      continue;
+    }
+
+    const localName = getLocalName(name);
+
+    if (skipDepth > 0) {
+      if (closing) skipDepth--;
+      else if (!selfClosing) skipDepth++;
+      continue;
+    }
+
+    if (closing) {
+      if (localName === 'style' && styleDepth > 0) styleDepth--;
+      output.push(`</${name}>`);
+      continue;
+    }
+
+    rootName ??= localName;
+
+    const safeAttributes = BLOCKED_ELEMENTS.has(localName) ? null : sanitizeAttributes(localName, attributes);
+    if (safeAttributes === null) {
+      if (!selfClosing) skipDepth = 1;
+      continue;
+    }
+
+    if (localName === 'style' && !selfClosing) styleDepth++;
+    output.push(`<${name}${safeAttributes}${selfClosing ? '/' : ''}>`);
+  }
+
+  return rootName === 'svg' ? output.join('') : null;
+}
+
+/**
+ * Read an SVG response and sanitize it
+ *
+ * Consumes the response body.
+ *
+ * @throws If the SVG exceeds MAX_SVG_SIZE or is not an SVG document
+ */
+export async function sanitizeSvgResponse(response: Response): Promise<Uint8Array> {
+  if (!response.body) {
+    throw new Error('SVG response has no body');
+  }
+
+  const { stream, byteCount } = createSizeLimitedStream(response.body, MAX_SVG_SIZE);
+  byteCount.catch(() => {
+    // Size limit errors surface through text() below
+  });
+
+  const svg = sanitizeSvg(await new Response(stream).text());
+  if (svg === null) {
+    throw new Error('Not an SVG document');
+  }
+
+  return new TextEncoder().encode(svg);
+}
@@ -0,0 +1,359 @@
+/**
+ * On-the-fly image transformation (resize / crop / re-encode)
+ *
+ * Runs the Squoosh codecs (via @jsquash) as WebAssembly inside the worker:
+ * JPEG, PNG and WebP are decoded, resized and encoded back to the same format,
+ * or to AVIF / WebP when negotiated from the Accept header (AUTO_FORMAT).
+ * Other image types (GIF, SVG, AVIF, ...) are served untransformed.
+ *
+ * Variants are stored in R2 under their own key next to the original
+ * (see getVariantKey), so each size is only ever computed once.
+ *
+ * Sources over MAX_TRANSFORM_PIXELS are never decoded: their dimensions are
+ * read from the header (or the cached object's metadata) first, and the
+ * original is served instead.
+ *
+ * NOTE: Animated WebP is reduced to its first frame.
+ */
+
+import type { Env, ParsedUrl, TransformOptions, OutputFormat } from './types';
+import { getImageDimensions } from './dimensions';
+import type { ImageDimensions } from './dimensions';
+
+import decodeJpeg, { init as initJpegDecode } from '@jsquash/jpeg/decode';
+import encodeJpeg, { init as initJpegEncode } from '@jsquash/jpeg/encode';
+import decodePng, { init as initPngDecode } from '@jsquash/png/decode';
+import encodePng from '@jsquash/png/encode';
+import decodeWebp, { init as initWebpDecode } from '@jsquash/webp/decode';
+import encodeWebp, { init as initWebpEncode } from '@jsquash/webp/encode';
+import encodeAvif, { init as initAvifEncode } from '@jsquash/avif/encode';
+import resize, { initResize } from '@jsquash/resize';
+
+import JPEG_DEC_WASM from '@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm?module';
+import JPEG_ENC_WASM from '@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm?module';
+import PNG_WASM from '@jsquash/png/codec/pkg/squoosh_png_bg.wasm?module';
+import WEBP_DEC_WASM from '@jsquash/webp/codec/dec/webp_dec.wasm?module';
+import WEBP_ENC_WASM from '@jsquash/webp/codec/enc/webp_enc_simd.wasm?module';
+import AVIF_ENC_WASM from '@jsquash/avif/codec/enc/avif_enc.wasm?module';
+import RESIZE_WASM from '@jsquash/resize/lib/resize/pkg/squoosh_resize_bg.wasm?module';
+
+/**
+ * Largest source file we will decode (bytes)
+ *
+ * Decoding happens in worker memory (128 MB): the compressed source, the
+ * decoded RGBA pixels and the resized pixels must all fit at once.
+ */
+export const MAX_TRANSFORM_SOURCE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Largest source image we will decode (pixels)
+ *
+ * The file size says little about the decoded size: a 10 MB limit still
+ * admits a highly compressed 100 MP image (400 MB of RGBA). 16 MP decodes
+ * to 64 MB, which leaves room for the resized copy.
+ */
+const MAX_TRANSFORM_PIXELS = 16_000_000;
+
+/**
+ * AVIF encoder speed (0-10, default 6)
+ *
+ * AVIF encoding is by far the most CPU-intensive step; a faster preset
+ * keeps it within Worker CPU limits at a small cost in file size.
+ */
+const AVIF_ENCODE_SPEED = 8;
+
+/** Source formats the codecs can decode */
+type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+/** Formats the codecs can encode */
+type EncodeFormat = ImageFormat | OutputFormat;
+
+const FORMAT_CONTENT_TYPES: Record<EncodeFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+/**
+ * Paths eligible for automatic format conversion (JPEG/PNG originals)
+ *
+ * Decided from the path because the request must pick its cache key before
+ * the original's content type is known. Explicit transformations are always
+ * eligible.
+ */
+const AUTO_FORMAT_PATH_PATTERN = /\.(jpe?g|png)$/i;
+
+/**
+ * Transformed image ready to store and serve
+ */
+export interface ImageVariant {
+  data: ArrayBuffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Get the codec format for a content type
+ *
+ * @returns format, or null if the type cannot be transformed
+ */
+function getImageFormat(contentType: string): ImageFormat | null {
+  const mimeType = contentType.toLowerCase().split(';')[0].trim();
+
+  switch (mimeType) {
+    case 'image/jpeg':
+    case 'image/jpg':
+      return 'jpeg';
+    case 'image/png':
+      return 'png';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if content type can be transformed (JPEG, PNG, WebP)
+ */
+export function isTransformableContentType(contentType: string): boolean {
+  return getImageFormat(contentType) !== null;
+}
+
+/**
+ * Check if an image is too large to decode for a transformation
+ *
+ * @param dimensions - Dimensions from the header or the cached object's
+ *                     metadata; null (unknown) passes - transformImage
+ *                     checks the header again before decoding
+ */
+export function exceedsTransformBudget(dimensions: ImageDimensions | null): boolean {
+  return dimensions !== null && dimensions.width * dimensions.height > MAX_TRANSFORM_PIXELS;
+}
+
+/**
+ * Emscripten options that instantiate a bundled module
+ *
+ * Workers cannot compile WebAssembly from bytes at runtime, so the codecs
+ * must not fetch their .wasm files - they get the pre-compiled module instead.
+ */
+function fromModule(module: WebAssembly.Module) {
+  return {
+    instantiateWasm: (
+      imports: WebAssembly.Imports,
+      callback: (instance: WebAssembly.Instance) => void
+    ): WebAssembly.Exports => {
+      const instance = new WebAssembly.Instance(module, imports);
+      callback(instance);
+      return instance.exports;
+    },
+  };
+}
+
+function loadCodec(codec: EncodeFormat | 'resize'): Promise<unknown> {
+  switch (codec) {
+    case 'jpeg':
+      return Promise.all([
+        initJpegDecode(fromModule(JPEG_DEC_WASM)),
+        initJpegEncode(fromModule(JPEG_ENC_WASM)),
+      ]);
+    case 'png':
+      // Decoder and encoder share one wasm-bindgen module
+      return initPngDecode(PNG_WASM);
+    case 'webp':
+      return Promise.all([
+        initWebpDecode(fromModule(WEBP_DEC_WASM)),
+        initWebpEncode(fromModule(WEBP_ENC_WASM)),
+      ]);
+    case 'avif':
+      return initAvifEncode(fromModule(AVIF_ENC_WASM));
+    case 'resize':
+      return initResize(RESIZE_WASM);
+  }
+}
+
+// Codecs are initialized once per isolate, on first use of each format
+const codecsReady = new Map<EncodeFormat | 'resize', Promise<unknown>>();
+
+function initCodec(codec: EncodeFormat | 'resize'): Promise<unknown> {
+  let ready = codecsReady.get(codec);
+  if (!ready) {
+    ready = loadCodec(codec).catch(error => {
+      // Allow a retry on the next request
+      codecsReady.delete(codec);
+      throw error;
+    });
+    codecsReady.set(codec, ready);
+  }
+  return ready;
+}
+
+async function decodeImage(format: ImageFormat, data: ArrayBuffer) {
+  await initCodec(format);
+
+  switch (format) {
+    case 'jpeg': return decodeJpeg(data);
+    case 'png': return decodePng(data);
+    case 'webp': return decodeWebp(data);
+  }
+}
+
+async function encodeImage(
+  format: EncodeFormat,
+  image: Awaited<ReturnType<typeof decodeImage>>,
+  quality: number
+): Promise<ArrayBuffer> {
+  await initCodec(format);
+
+  switch (format) {
+    case 'jpeg': return encodeJpeg(image, { quality });
+    case 'png': return encodePng(image);
+    case 'webp': return encodeWebp(image, { quality });
+    case 'avif': return encodeAvif(image, { quality, speed: AVIF_ENCODE_SPEED });
+  }
+}
+
+/**
+ * Check if automatic format conversion is enabled
+ *
+ * Opt-in: every converted variant costs an encode (AVIF especially) and an
+ * R2 write, so an unset AUTO_FORMAT means "off".
+ */
+function isAutoFormatEnabled(env: Env): boolean {
+  return env.AUTO_FORMAT === 'avif' || env.AUTO_FORMAT === 'webp';
+}
+
+/**
+ * Check if the response for a request depends on its Accept header
+ *
+ * True when AUTO_FORMAT is enabled and the path is a JPEG/PNG or the request
+ * is an explicit transformation. Such responses must carry "Vary: Accept",
+ * including when the original format is served.
+ */
+export function isFormatNegotiable(parsed: ParsedUrl, env: Env): boolean {
+  if (!isAutoFormatEnabled(env)) return false;
+
+  return parsed.transform !== null || AUTO_FORMAT_PATH_PATTERN.test(parsed.path);
+}
+
+/**
+ * Pick the output format from an Accept header (AVIF > WebP > original)
+ *
+ * Only explicit image/avif and image/webp entries count - browsers that
+ * send just "image/*" or "*\/*" are not guaranteed to decode either.
+ * Entries with q=0 are refusals.
+ *
+ * @returns Negotiated format, or null to keep the source format
+ */
+export function negotiateOutputFormat(accept: string | null, env: Env): OutputFormat | null {
+  if (!accept || !isAutoFormatEnabled(env)) return null;
+
+  const accepted = new Set<string>();
+  for (const entry of accept.toLowerCase().split(',')) {
+    const [mimeType, ...params] = entry.split(';').map(part => part.trim());
+    const qParam = params.find(param => param.startsWith('q='));
+    const q = qParam ? parseFloat(qParam.substring(2)) : 1;
+    if (!isNaN(q) && q > 0) {
+      accepted.add(mimeType);
+    }
+  }
+
+  if (env.AUTO_FORMAT !== 'webp' && accepted.has('image/avif')) return 'avif';
+  if (accepted.has('image/webp')) return 'webp';
+  return null;
+}
+
+/**
+ * Compute output dimensions for a transformation
+ *
+ *   cover (w and h)    - exactly w x h, source center-cropped to that aspect ratio
+ *   contain            - largest size fitting inside w x h, aspect ratio kept
+ *   scale-down         - like contain, but never larger than the source
+ *
+ * With only one of w/h given, cover behaves like contain.
+ */
+function getTargetSize(
+  sourceWidth: number,
+  sourceHeight: number,
+  transform: TransformOptions
+): { width: number; height: number; crop: boolean } {
+  const { width, height, fit } = transform;
+
+  // Quality-only transformation: re-encode at source size
+  if (width === null && height === null) {
+    return { width: sourceWidth, height: sourceHeight, crop: false };
+  }
+
+  if (fit === 'cover' && width !== null && height !== null) {
+    return { width, height, crop: true };
+  }
+
+  let scale = Math.min(
+    width !== null ? width / sourceWidth : Infinity,
+    height !== null ? height / sourceHeight : Infinity
+  );
+  if (fit === 'scale-down') {
+    scale = Math.min(scale, 1);
+  }
+
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+    crop: false,
+  };
+}
+
+/**
+ * Transform an image
+ *
+ * @param source - Original image bytes
+ * @param contentType - Original content type (must pass isTransformableContentType)
+ * @param transform - Parsed transformation options
+ * @throws If the format is unsupported, the image exceeds MAX_TRANSFORM_PIXELS
+ *         or it cannot be decoded
+ */
+export async function transformImage(
+  source: ArrayBuffer,
+  contentType: string,
+  transform: TransformOptions
+): Promise<ImageVariant> {
+  const format = getImageFormat(contentType);
+  if (!format) {
+    throw new Error(`Unsupported image type for transformation: ${contentType}`);
+  }
+
+  // Never decode without knowing the pixel count (see MAX_TRANSFORM_PIXELS)
+  const dimensions = getImageDimensions(new Uint8Array(source));
+  if (!dimensions) {
+    throw new Error('Image dimensions not found in header');
+  }
+  if (exceedsTransformBudget(dimensions)) {
+    throw new Error(`${dimensions.width}x${dimensions.height} exceeds the transform pixel budget`);
+  }
+
+  const decoded = await decodeImage(format, source);
+  const target = getTargetSize(decoded.width, decoded.height, transform);
+
+  let image = decoded;
+  if (target.width !== decoded.width || target.height !== decoded.height) {
+    await initCodec('resize');
+    // Squoosh's "contain" fit method crops the source to the target aspect ratio
+    image = await resize(decoded, {
+      width: target.width,
+      height: target.height,
+      fitMethod: target.crop ? 'contain' : 'stretch',
+    });
+  }
+
+  const outputFormat = transform.format || format;
+  const data = await encodeImage(outputFormat, image, transform.quality);
+
+  return {
+    data,
+    contentType: FORMAT_CONTENT_TYPES[outputFormat],
+    width: target.width,
+    height: target.height,
+  };
+}
@@ -12,14 +12,51 @@ export interface Env {
   // Self-hosted deployments can omit these bindings
   BILLING_DB?: D1Database;
   USAGE_TRACKER?: DurableObjectNamespace;
+
+  // Optional: Rate limiter Durable Object (only needed when RATE_LIMIT_* is set)
+  RATE_LIMITER?: DurableObjectNamespace;
+
+  // Optional: Origin circuit breaker Durable Object (see circuit.ts)
+  CIRCUIT_BREAKER?: DurableObjectNamespace;
+
+  // Optional: Cache miss coalescing Durable Object (see coalesce.ts)
+  MISS_COALESCER?: DurableObjectNamespace;
   ORIGIN_MODE?: 'open' | 'list' | 'registered';
   ALLOWED_ORIGINS?: string;
   BLOCKED_ORIGINS?: string;
   DEBUG?: string;
   MAX_FILE_SIZE?: string;
   FETCH_TIMEOUT?: string;
+  MAX_REDIRECTS?: string;  // Origin redirect hops to follow, each validated (default 5, "0" follows none)
+  MAX_IMAGE_WIDTH?: string;  // Largest image width in pixels to cache (default 32768, "0" disables)
+  MAX_IMAGE_HEIGHT?: string;  // Largest image height in pixels to cache (default 32768, "0" disables)
+  MAX_IMAGE_MEGAPIXELS?: string;  // Largest image area in megapixels to cache (default 100, "0" disables)
   ORIGIN_USER_AGENT?: string;
   FORWARD_CLIENT_IP?: string;  // Set to "true" to forward X-Forwarded-For
+  NEGATIVE_CACHE_TTL?: string;  // Seconds to remember blocked/404 origins (default 60, "0" disables)
+  CACHE_TTL?: string;  // Freshness lifetime in seconds, or "immutable" (default)
+  CACHE_TTL_OVERRIDES?: string;  // Per-domain TTLs: "example.com=3600,*.example.org=immutable"
+  CACHE_TTL_SOURCE?: 'config' | 'origin';  // "origin" = derive TTL from origin Cache-Control
+  STALE_IF_ERROR_MAX_AGE?: string;  // Seconds past expiry to serve cached copy when origin fails (default 86400, "0" disables)
+  AUTO_FORMAT?: 'avif' | 'webp' | 'off';  // Serve JPEG/PNG as AVIF/WebP per Accept header: "avif" = AVIF > WebP, "webp" = WebP only (default "off")
+  QUERY_FORWARD?: string;  // Per-domain query params sent to origin: "example.com=id|ver,*.amazonaws.com=*" (default none)
+  QUERY_CACHE_KEY?: string;  // Per-domain query params in the cache key, same format (default none)
+  HOTLINK_REFERERS?: string;  // Per-domain allowed referers: "example.com=none|example.com|*.example.com" (default unprotected)
+  HOTLINK_ACTION?: string;  // Per-domain action for hotlinks: "example.com=403" - redirect (default), 403, placeholder
+  RATE_LIMIT_REQUESTS?: string;  // Request budget (hits and misses): "ip=600/60,domain=20000/60" (count/seconds, default off)
+  RATE_LIMIT_MISSES?: string;  // Origin fetch budget, same format: "ip=60/60,domain=2000/60" (default off)
+  RATE_LIMIT_ACTION?: '429' | 'redirect';  // Over budget: 429 with Retry-After (default) or redirect to origin
+  CIRCUIT_BREAKER_THRESHOLD?: string;  // Consecutive origin failures that open the circuit (default 5)
+  CIRCUIT_BREAKER_COOLDOWN?: string;  // Seconds an open circuit redirects misses before probing (default 30)
+  CORS_ORIGINS?: string;  // Per-domain allowed origins: "example.com=https://example.com|https://*.example.com" (default "*")
+  CORS_CREDENTIALS?: string;  // Set to "true" to send Access-Control-Allow-Credentials to listed origins
+  CORS_EXPOSE_HEADERS?: string;  // Set to "true" to expose X-ImgPro-* headers to scripts
+  CROSS_ORIGIN_RESOURCE_POLICY?: string;  // same-origin, same-site or cross-origin (default not sent)
+  TIMING_ALLOW_ORIGIN?: string;  // Set to "true" to send Timing-Allow-Origin for allowed origins
+
+  // Optional: Bearer secret for purge and /_admin/* endpoints (set via `wrangler secret put`)
+  // Without it, only per-site purge tokens (KV) can purge
+  ADMIN_SECRET?: string;
 }
 
 /**
@@ -30,6 +67,8 @@ export interface OriginValidationResult {
   reason: 'allowed' | 'blocked' | 'not_in_allowlist' | 'invalid_domain';
   source: 'config' | 'kv' | 'default';
   domain_records?: DomainRecord[];
+  // Per-domain settings from KV, if the domain has a valid config record
+  domain_config?: DomainConfigRecord;
 }
 
 /**
@@ -46,6 +85,123 @@ export interface OriginValidationResult {
 export interface DomainRecord {
   site_id: number;
   status: 'active' | 'blocked' | 'suspended';
+  // Optional: hex SHA-256 of the site's purge token (see auth.ts)
+  purge_token_hash?: string;
+}
+
+/**
+ * Signed URL configuration stored in KV (see signing.ts)
+ *
+ * Key: "signing:" + domain (e.g., "signing:example.com")
+ * Value: JSON-encoded SigningConfig
+ *
+ * Example: { "keys": [{ "id": "2025-06", "secret": "..." }], "path_prefixes": ["/courses/"] }
+ */
+export interface SigningConfig {
+  // Active keys - a URL signed with any of them is accepted (rotation)
+  keys: SigningKey[];
+  // Optional: only paths starting with one of these need a signature (default: all)
+  path_prefixes?: string[];
+}
+
+export interface SigningKey {
+  id: string;       // Label for logs and rotation, not part of the URL
+  secret: string;   // HMAC-SHA256 secret
+}
+
+/**
+ * Per-domain configuration stored in KV (see domain-config.ts)
+ *
+ * Key: "config:" + domain (e.g., "config:example.com")
+ * Value: JSON-encoded DomainConfigRecord
+ *
+ * Every setting is optional and overrides the matching env default.
+ * Records with an unknown version or malformed fields are ignored as a whole.
+ *
+ * Example: { "version": 1, "max_file_size": "2GB", "cache_ttl": 3600 }
+ */
+export interface DomainConfigRecord {
+  version: 1;
+  max_file_size?: string;              // Same format as MAX_FILE_SIZE ("100MB")
+  fetch_timeout?: number;              // Milliseconds
+  max_redirects?: number;              // Redirect hops (0-20)
+  max_image_width?: number;            // Pixels, 0 = unlimited
+  max_image_height?: number;           // Pixels, 0 = unlimited
+  max_image_megapixels?: number;       // Megapixels, 0 = unlimited
+  origin_user_agent?: string;
+  forward_client_ip?: boolean;
+  cache_ttl?: number | 'immutable';    // Seconds, or "immutable"
+  cache_ttl_source?: 'config' | 'origin';
+  rate_limit_requests?: string;        // Same format as RATE_LIMIT_REQUESTS, per scope ("ip=off" disables)
+  rate_limit_misses?: string;          // Same format as RATE_LIMIT_MISSES
+  rate_limit_action?: '429' | 'redirect';
+  cors_origins?: string;               // Same format as a CORS_ORIGINS value ("https://a.com|https://*.a.com" or "*")
+  cors_credentials?: boolean;
+  cors_expose_headers?: boolean;
+  cross_origin_resource_policy?: CrossOriginResourcePolicy;
+  timing_allow_origin?: boolean;
+  query_forward?: string;              // Same format as a QUERY_FORWARD value ("id|ver", "*", or "" for none)
+  query_cache_key?: string;            // Same format as a QUERY_CACHE_KEY value
+  hotlink_referers?: string;           // Same format as a HOTLINK_REFERERS value ("none|example.com|*.example.com")
+  hotlink_action?: HotlinkAction;
+}
+
+/**
+ * Effective settings for one domain: KV config record merged over env defaults
+ * (see resolveDomainConfig)
+ */
+export interface DomainConfig {
+  maxFileSize: number;                 // Bytes
+  fetchTimeout: number;                // Milliseconds
+  maxRedirects: number;                // Origin redirect hops to follow
+  maxImageWidth: number;               // Pixels, 0 = unlimited
+  maxImageHeight: number;              // Pixels, 0 = unlimited
+  maxImageMegapixels: number;          // Megapixels, 0 = unlimited
+  originUserAgent: string | null;      // null = forward the client's User-Agent
+  forwardClientIp: boolean;
+  cacheTtl: number | null;             // Seconds, null = immutable
+  cacheTtlSource: 'config' | 'origin';
+  rateLimits: {
+    requests: RateLimits;              // Every request (cache hits and misses)
+    misses: RateLimits;                // Origin fetches only
+  };
+  rateLimitAction: '429' | 'redirect';
+  cors: CorsPolicy;
+  queryForward: string | null;         // Query params sent to origin ("id|ver" or "*"), null = none
+  queryCacheKey: string | null;        // Query params in the cache key, same format
+  hotlinkReferers: string | null;      // Allowed referers ("none|example.com"), null = unprotected
+  hotlinkAction: HotlinkAction;
+}
+
+export type HotlinkAction = 'redirect' | '403' | 'placeholder';
+
+export type CrossOriginResourcePolicy = 'same-origin' | 'same-site' | 'cross-origin';
+
+/**
+ * CORS and resource policy for one domain (see cors.ts)
+ */
+export interface CorsPolicy {
+  allowedOrigins: string[] | '*';      // Origin patterns ("https://*.example.com"), or any origin
+  credentials: boolean;                // Access-Control-Allow-Credentials (listed origins only)
+  exposeHeaders: boolean;              // Expose X-ImgPro-* headers to scripts
+  resourcePolicy: CrossOriginResourcePolicy | null;  // Cross-Origin-Resource-Policy, null = not sent
+  timingAllowOrigin: boolean;          // Timing-Allow-Origin for allowed origins
+}
+
+/**
+ * Rate limits for one budget, by scope (null = unlimited)
+ */
+export interface RateLimits {
+  ip: RateLimit | null;                // Per client IP (and domain)
+  domain: RateLimit | null;            // Per origin domain
+}
+
+/**
+ * Rate limit: at most `limit` requests per `window` seconds (sliding window)
+ */
+export interface RateLimit {
+  limit: number;
+  window: number;
 }
 
 /**
@@ -58,8 +214,30 @@ export interface ParsedUrl {
   cacheKey: string;
   forceReprocess: boolean;
   viewImage: boolean;
+  // Image transformation (?w=, ?h=, ?fit=, ?q=, ?dpr=, negotiated format), null = serve the original
+  transform: TransformOptions | null;
+  // Cache key of the transformed variant (stored next to cacheKey), null without transform
+  variantKey: string | null;
 }
 
+/**
+ * Image transformation options (see parseTransformParams)
+ *
+ * Dimensions already include the dpr multiplier and are clamped to limits.
+ */
+export interface TransformOptions {
+  width: number | null;   // Output width in pixels, null = derive from height
+  height: number | null;  // Output height in pixels, null = derive from width
+  fit: 'cover' | 'contain' | 'scale-down';
+  quality: number;        // 1-100 (lossy formats only)
+  format: OutputFormat | null;  // Negotiated from Accept, null = keep the source format
+}
+
+/**
+ * Output formats an image can be converted to (see negotiateOutputFormat)
+ */
+export type OutputFormat = 'avif' | 'webp';
+
 // REMOVED (2024-11-30): CacheStats interface - never used
 // Metrics tracking not yet implemented; add back when needed
 
@@ -84,6 +262,7 @@ export interface HtmlViewerOptions {
   cdnUrl: string;
   cacheKey: string;
   cachedAt?: string;
+  redirects?: string;     // Origin redirect chain at cache time ("url -> url")
   processingTime: number;
   logs: LogEntry[];
   env: Env;
@@ -6,21 +6,44 @@
 export const VERSION = '1.3.0';
 
 /**
- * Get CORS headers
+ * Get default CORS headers (any origin)
+ *
+ * Media responses use the domain's CORS policy instead (see cors.ts).
  */
 export function getCORSHeaders(): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, HEAD, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, HEAD, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Max-Age': '86400',
   };
 }
 
+/**
+ * Get security headers for media responses
+ *
+ * Media is served from the CDN's own hostname, so a file opened directly
+ * (an SVG, or anything a browser might render as a document) must not be
+ * able to run script there: sandboxed, no script sources, no sniffing.
+ */
+export function getMediaSecurityHeaders(): Record<string, string> {
+  return {
+    'Content-Security-Policy': "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox",
+    'X-Content-Type-Options': 'nosniff',
+  };
+}
+
 /**
  * Create error response
+ *
+ * @param corsHeaders - CORS headers for the response (default: getCORSHeaders);
+ *                      media paths pass their domain's (see cors.ts)
  */
-export function errorResponse(message: string, status: number): Response {
+export function errorResponse(
+  message: string,
+  status: number,
+  corsHeaders: Record<string, string> = getCORSHeaders()
+): Response {
   return new Response(JSON.stringify({
     error: message,
     status: status,
@@ -28,6 +51,20 @@ export function errorResponse(message: string, status: number): Response {
     status: status,
     headers: {
       'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Create JSON response
+ */
+export function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data, null, 2), {
+    status: status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
       ...getCORSHeaders(),
     },
   });
@@ -12,7 +12,65 @@
  * This ensures no service disruption while preventing CDN abuse.
  */
 
-import type { Env, ParsedUrl, OriginValidationResult, DomainRecord } from './types';
+import type {
+  Env,
+  ParsedUrl,
+  OriginValidationResult,
+  DomainRecord,
+  DomainConfigRecord,
+  DomainConfig,
+  TransformOptions,
+  OutputFormat,
+} from './types';
+import { parseFileSize } from './utils';
+import { parseRateLimits } from './rate-limit';
+import { parseCorsOrigins, isResourcePolicy } from './cors';
+import { isHotlinkAction, isHotlinkReferers } from './hotlink';
+
+/** Maximum output width/height of a transformed image (pixels, after dpr) */
+const MAX_TRANSFORM_DIMENSION = 4096;
+
+/** Maximum device pixel ratio multiplier */
+const MAX_TRANSFORM_DPR = 3;
+
+/** Default encoder quality when ?q= is not given */
+const DEFAULT_TRANSFORM_QUALITY = 85;
+
+/**
+ * Output sizes a requested width/height is rounded up to (pixels, after dpr)
+ *
+ * Common layout and device widths; every size ends on one of these, so an
+ * original can have at most a few thousand variants however the URL is varied.
+ */
+const TRANSFORM_SIZES = [
+  16, 32, 48, 64, 96, 128, 160, 192, 256, 320, 384, 480, 640, 750, 828,
+  960, 1080, 1200, 1280, 1440, 1600, 1920, 2048, 2560, 3072, 3840, MAX_TRANSFORM_DIMENSION,
+];
+
+/** Qualities a requested quality is rounded to (nearest) */
+const TRANSFORM_QUALITIES = [10, 20, 30, 40, 50, 60, 70, 75, 80, 85, 90, 95, 100];
+
+const TRANSFORM_FITS: TransformOptions['fit'][] = ['cover', 'contain', 'scale-down'];
+
+/**
+ * Separator between a cache key and a variant descriptor
+ *
+ * normalizePath() drops empty segments and query strings are form-encoded
+ * ("/" becomes %2F), so "//" never occurs in an original cache key - a
+ * variant key can never collide with a real file path.
+ */
+const VARIANT_KEY_SEPARATOR = '//';
+
+/**
+ * Query parameters read by the worker itself
+ *
+ * Never forwarded to the origin and never part of a cache key, whatever
+ * QUERY_FORWARD / QUERY_CACHE_KEY say.
+ */
+const CONTROL_PARAMS = new Set(['force', 'view', 'w', 'h', 'fit', 'q', 'dpr', 'expires', 'sig']);
+
+/** Query parameter rule: "*" = all non-control parameters, else a set of names */
+type QueryParamRule = '*' | Set<string>;
 
 /**
  * Normalize a path to prevent path traversal attacks
@@ -41,8 +99,20 @@ function normalizePath(path: string): string {
 
 /**
  * Parse URL to extract domain, path, cache key, and parameters
+ *
+ * The query string is filtered through the domain's query rules (see
+ * parseQueryParamRule): forwarded parameters are appended to sourceUrl,
+ * cache key parameters to cacheKey, both sorted so that parameter order
+ * does not matter. By default neither includes any parameters.
+ *
+ * @param config - The domain's effective config, once loaded: its rules may
+ *                 come from the config record. Until then the env rules apply.
  */
-export function parseUrl(url: URL): ParsedUrl {
+export function parseUrl(
+  url: URL,
+  env: Env,
+  config?: Pick<DomainConfig, 'queryForward' | 'queryCacheKey'>
+): ParsedUrl {
   const decodedPathname = decodeURIComponent(url.pathname);
   const pathParts = decodedPathname.replace(/^\/+/, '').split('/');
 
@@ -69,10 +139,14 @@ export function parseUrl(url: URL): ParsedUrl {
     .split('/')
     .map(segment => encodeURIComponent(segment))
     .join('/');
-  const sourceUrl = `https://${domain}${encodedPath}`;
+  const forwardParams = config ? config.queryForward : getDomainSetting(env.QUERY_FORWARD, domain) ?? null;
+  const keyParams = config ? config.queryCacheKey : getDomainSetting(env.QUERY_CACHE_KEY, domain) ?? null;
+  const forwardedQuery = buildQueryString(url.searchParams, parseQueryParamRule(forwardParams));
+  const sourceUrl = `https://${domain}${encodedPath}${forwardedQuery ? '?' + forwardedQuery : ''}`;
 
   // SECURITY: Use normalized path in cache key to prevent collisions
-  const cacheKey = `${domain}${path}`;
+  const keyQuery = buildQueryString(url.searchParams, parseQueryParamRule(keyParams));
+  const cacheKey = `${domain}${path}${keyQuery ? '?' + keyQuery : ''}`;
 
   const forceReprocess = url.searchParams.get('force') === 'true' ||
                          url.searchParams.get('force') === '1';
@@ -80,7 +154,184 @@ export function parseUrl(url: URL): ParsedUrl {
   const viewImage = url.searchParams.get('view') === 'true' ||
                     url.searchParams.get('view') === '1';
 
-  return { domain, path, sourceUrl, cacheKey, forceReprocess, viewImage };
+  const transform = parseTransformParams(url.searchParams);
+  const variantKey = transform ? getVariantKey(cacheKey, transform) : null;
+
+  return { domain, path, sourceUrl, cacheKey, forceReprocess, viewImage, transform, variantKey };
+}
+
+/**
+ * Parse a domain's query parameter rule
+ *
+ * Format: parameter names separated by "|", "*" for all parameters, empty
+ * for none - one domain's QUERY_FORWARD / QUERY_CACHE_KEY entry
+ * ("example.com=id|ver,*.amazonaws.com=*", see getDomainSetting) or its
+ * config record field. Domains with neither get no parameters (null).
+ */
+function parseQueryParamRule(params: string | null): QueryParamRule {
+  if (params === null) return new Set();
+  if (params.trim() === '*') return '*';
+
+  return new Set(params.split('|').map(name => name.trim()).filter(name => name !== ''));
+}
+
+/**
+ * Build a normalized query string from the parameters a rule allows
+ *
+ * Control parameters are always dropped. Parameters are sorted by name, then
+ * value, and re-encoded, so "?b=2&a=1" and "?a=%31&b=2" give the same string.
+ *
+ * @returns Query string without "?", or "" if no parameters remain
+ */
+function buildQueryString(params: URLSearchParams, rule: QueryParamRule): string {
+  const entries = [...params].filter(([name]) =>
+    name !== '' && !CONTROL_PARAMS.has(name) && (rule === '*' || rule.has(name))
+  );
+  if (entries.length === 0) return '';
+
+  entries.sort(([nameA, valueA], [nameB, valueB]) =>
+    nameA !== nameB ? (nameA < nameB ? -1 : 1) : (valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+  );
+  return new URLSearchParams(entries).toString();
+}
+
+/**
+ * Check if every parameter of a query string is forwarded to the origin
+ *
+ * Used for URIs found in manifests: such a URI only works through the CDN
+ * if none of its parameters would be dropped on the way to the origin.
+ *
+ * @param config - The domain's effective config, if loaded (see parseUrl)
+ */
+export function isQueryForwarded(
+  env: Env,
+  domain: string,
+  params: URLSearchParams,
+  config?: Pick<DomainConfig, 'queryForward'>
+): boolean {
+  const forwardParams = config ? config.queryForward : getDomainSetting(env.QUERY_FORWARD, domain) ?? null;
+  const rule = parseQueryParamRule(forwardParams);
+  return [...params.keys()].every(name =>
+    name !== '' && !CONTROL_PARAMS.has(name) && (rule === '*' || rule.has(name))
+  );
+}
+
+/**
+ * Parse a positive integer query parameter (digits only)
+ */
+function parsePositiveInt(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+
+  const number = parseInt(value, 10);
+  return number > 0 ? number : null;
+}
+
+/**
+ * Round a size up to the next TRANSFORM_SIZES entry (never below the request)
+ */
+function snapTransformSize(size: number): number {
+  return TRANSFORM_SIZES.find(bucket => bucket >= size) ?? MAX_TRANSFORM_DIMENSION;
+}
+
+/**
+ * Round a quality to the nearest TRANSFORM_QUALITIES entry
+ */
+function snapTransformQuality(quality: number): number {
+  return TRANSFORM_QUALITIES.reduce((nearest, bucket) =>
+    Math.abs(bucket - quality) < Math.abs(nearest - quality) ? bucket : nearest
+  );
+}
+
+/**
+ * Parse image transformation parameters
+ *
+ *   w, h - Output width / height in CSS pixels
+ *   fit  - "cover" (crop to exactly w x h), "contain" (fit inside w x h),
+ *          "scale-down" (like contain, but never enlarge - default)
+ *   q    - Quality 1-100 for lossy formats (default 85)
+ *   dpr  - Device pixel ratio 1-3, multiplies w and h
+ *
+ * SECURITY: Output dimensions are capped at MAX_TRANSFORM_DIMENSION (scaled
+ * down proportionally), then rounded up to TRANSFORM_SIZES; quality is
+ * rounded to TRANSFORM_QUALITIES. Every variant key comes from these fixed
+ * sets, so varying the parameters cannot mint more variants per original
+ * than their combinations. Invalid values are ignored rather than rejected.
+ *
+ * @returns Transform options, or null if no transformation was requested
+ */
+export function parseTransformParams(params: URLSearchParams): TransformOptions | null {
+  const requestedWidth = parsePositiveInt(params.get('w'));
+  const requestedHeight = parsePositiveInt(params.get('h'));
+  const requestedQuality = parsePositiveInt(params.get('q'));
+
+  if (requestedWidth === null && requestedHeight === null && requestedQuality === null) {
+    return null;
+  }
+
+  const dprParam = parseFloat(params.get('dpr') || '');
+  const dpr = isNaN(dprParam) ? 1 : Math.min(Math.max(dprParam, 1), MAX_TRANSFORM_DPR);
+
+  let width = requestedWidth !== null ? requestedWidth * dpr : null;
+  let height = requestedHeight !== null ? requestedHeight * dpr : null;
+
+  // Keep the requested aspect ratio when clamping (matters for fit=cover)
+  const scale = Math.min(
+    1,
+    width !== null ? MAX_TRANSFORM_DIMENSION / width : 1,
+    height !== null ? MAX_TRANSFORM_DIMENSION / height : 1
+  );
+  width = width !== null ? snapTransformSize(width * scale) : null;
+  height = height !== null ? snapTransformSize(height * scale) : null;
+
+  const fitParam = params.get('fit') as TransformOptions['fit'] | null;
+  const fit = fitParam && TRANSFORM_FITS.includes(fitParam) ? fitParam : 'scale-down';
+
+  const quality = requestedQuality !== null ? snapTransformQuality(requestedQuality) : DEFAULT_TRANSFORM_QUALITY;
+
+  return { width, height, fit, quality, format: null };
+}
+
+/**
+ * Apply a negotiated output format to a parsed URL
+ *
+ * Without explicit transform parameters this becomes a format-only
+ * transformation (source size, default quality).
+ */
+export function withOutputFormat(parsed: ParsedUrl, format: OutputFormat): ParsedUrl {
+  const transform: TransformOptions = {
+    ...(parsed.transform || {
+      width: null,
+      height: null,
+      fit: 'scale-down',
+      quality: DEFAULT_TRANSFORM_QUALITY,
+    }),
+    format,
+  };
+
+  return { ...parsed, transform, variantKey: getVariantKey(parsed.cacheKey, transform) };
+}
+
+/**
+ * Get the variant cache key for a transformed image
+ *
+ * @example ("example.com/a.jpg", {width: 400, ...}) -> "example.com/a.jpg//w400_scale-down_q85"
+ * @example ("example.com/a.jpg", {format: 'avif', ...}) -> "example.com/a.jpg//scale-down_q85_avif"
+ */
+export function getVariantKey(cacheKey: string, transform: TransformOptions): string {
+  const parts: string[] = [];
+  if (transform.width !== null) parts.push(`w${transform.width}`);
+  if (transform.height !== null) parts.push(`h${transform.height}`);
+  parts.push(transform.fit, `q${transform.quality}`);
+  if (transform.format !== null) parts.push(transform.format);
+
+  return `${getVariantPrefix(cacheKey)}${parts.join('_')}`;
+}
+
+/**
+ * Key prefix shared by all variants of a cached object (for purging)
+ */
+export function getVariantPrefix(cacheKey: string): string {
+  return `${cacheKey}${VARIANT_KEY_SEPARATOR}`;
 }
 
 /**
@@ -180,6 +431,30 @@ export function matchesDomainPattern(domain: string, pattern: string): boolean {
   return lowerDomain === lowerPattern;
 }
 
+/**
+ * Get a domain's value from a per-domain setting
+ *
+ * Format: "example.com=value,*.example.org=value". Entries are matched with
+ * matchesDomainPattern() (same wildcard semantics as ALLOWED_ORIGINS);
+ * first match wins.
+ *
+ * @returns Value of the matching entry (may be empty), or undefined if none matches
+ */
+export function getDomainSetting(setting: string | undefined, domain: string): string | undefined {
+  if (!setting) return undefined;
+
+  for (const entry of setting.split(',')) {
+    const [pattern, value] = entry.split('=');
+    if (!pattern || value === undefined) continue;
+
+    if (matchesDomainPattern(domain, pattern)) {
+      return value.trim();
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Check if domain matches any pattern in a comma-separated list
  */
@@ -204,7 +479,7 @@ export function matchesDomainList(domain: string, list: string): boolean {
  * Performance: Uses 60s edge cache (cacheTtl) to avoid KV lookups on every request.
  * Trade-off: Domain status changes take up to 60s to propagate.
  */
-async function getDomainRecords(
+export async function getDomainRecords(
   domain: string,
   kv: KVNamespace
 ): Promise<DomainRecord[]> {
@@ -223,6 +498,120 @@ async function getDomainRecords(
   }
 }
 
+/** KV key prefix for per-domain config records (domain names never contain ":") */
+const DOMAIN_CONFIG_KV_PREFIX = 'config:';
+
+/** Config record versions this worker understands */
+const DOMAIN_CONFIG_VERSION = 1;
+
+/**
+ * Check a parsed KV value against the DomainConfigRecord schema
+ *
+ * @returns Reason the record is malformed, or null if it is valid
+ */
+function getDomainConfigError(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'not an object';
+  }
+
+  const record = value as Record<string, unknown>;
+  if (record.version !== DOMAIN_CONFIG_VERSION) {
+    return `unsupported version ${JSON.stringify(record.version)}`;
+  }
+
+  const isPositiveInt = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v > 0;
+  const isNonNegativeInt = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v >= 0;
+  const isFileSize = (v: unknown) => {
+    try {
+      return typeof v === 'string' && parseFileSize(v) > 0;
+    } catch {
+      return false;
+    }
+  };
+  // One domain's parameter list, not a "domain=params,..." env setting
+  const isQueryParamList = (v: unknown) => typeof v === 'string' && !/[,=]/.test(v);
+  const checks: Record<string, (v: unknown) => boolean> = {
+    max_file_size: isFileSize,
+    fetch_timeout: isPositiveInt,
+    max_redirects: v => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= 20,
+    max_image_width: isNonNegativeInt,
+    max_image_height: isNonNegativeInt,
+    max_image_megapixels: v => typeof v === 'number' && Number.isFinite(v) && v >= 0,
+    origin_user_agent: v => typeof v === 'string' && v.trim() !== '',
+    forward_client_ip: v => typeof v === 'boolean',
+    cache_ttl: v => v === 'immutable' || (typeof v === 'number' && Number.isInteger(v) && v >= 0),
+    cache_ttl_source: v => v === 'config' || v === 'origin',
+    rate_limit_requests: v => typeof v === 'string' && parseRateLimits(v) !== null,
+    rate_limit_misses: v => typeof v === 'string' && parseRateLimits(v) !== null,
+    rate_limit_action: v => v === '429' || v === 'redirect',
+    cors_origins: v => typeof v === 'string' && parseCorsOrigins(v) !== null,
+    cors_credentials: v => typeof v === 'boolean',
+    cors_expose_headers: v => typeof v === 'boolean',
+    cross_origin_resource_policy: isResourcePolicy,
+    timing_allow_origin: v => typeof v === 'boolean',
+    query_forward: isQueryParamList,
+    query_cache_key: isQueryParamList,
+    hotlink_referers: isHotlinkReferers,
+    hotlink_action: isHotlinkAction,
+  };
+
+  for (const [field, isValid] of Object.entries(checks)) {
+    if (record[field] !== undefined && !isValid(record[field])) {
+      return `invalid ${field}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the config record for a domain from KV
+ *
+ * Uses the same 60s edge cache as getDomainRecords(). Malformed records are
+ * logged and ignored, so the domain falls back to env defaults.
+ *
+ * @returns Valid record, or null if the domain has none
+ */
+export async function getDomainConfigRecord(
+  domain: string,
+  kv: KVNamespace
+): Promise<DomainConfigRecord | null> {
+  try {
+    const value = await kv.get(`${DOMAIN_CONFIG_KV_PREFIX}${domain}`, { cacheTtl: 60 });
+    if (!value) return null;
+
+    const parsed: unknown = JSON.parse(value);
+    const error = getDomainConfigError(parsed);
+    if (error) {
+      console.error(`Ignoring config record for ${domain}: ${error}`);
+      return null;
+    }
+
+    return parsed as DomainConfigRecord;
+  } catch (error) {
+    console.error('KV domain config lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Validate origin and load its config record
+ *
+ * See checkOrigin() for the rules. The config record (if ORIGINS_KV is
+ * bound) is read in parallel and only returned for allowed origins.
+ */
+export async function validateOrigin(
+  domain: string,
+  env: Env
+): Promise<OriginValidationResult> {
+  const [result, domainConfig] = await Promise.all([
+    checkOrigin(domain, env),
+    env.ORIGINS_KV ? getDomainConfigRecord(domain, env.ORIGINS_KV) : Promise.resolve(null),
+  ]);
+
+  return result.allowed && domainConfig ? { ...result, domain_config: domainConfig } : result;
+}
+
 /**
  * Validate origin based on ORIGIN_MODE
  *
@@ -233,7 +622,7 @@ async function getDomainRecords(
  *
  * BLOCKED_ORIGINS is always checked first, regardless of mode.
  */
-export async function validateOrigin(
+async function checkOrigin(
   domain: string,
   env: Env
 ): Promise<OriginValidationResult> {
@@ -399,6 +788,7 @@ export function isVideoContentType(contentType: string): boolean {
     'video/x-matroska',
     'video/x-m4v',
     'video/mp2t',  // HLS segments (.ts)
+    'video/iso.segment',  // DASH / CMAF segments (.m4s)
   ];
 
   return videoTypes.includes(mimeType);
@@ -421,6 +811,7 @@ export function isAudioContentType(contentType: string): boolean {
     'audio/mp4',
     'audio/aac',
     'audio/flac',
+    'audio/iso.segment',  // DASH audio segments (.m4s)
   ];
 
   return audioTypes.includes(mimeType);
@@ -445,12 +836,66 @@ export function isHLSContentType(contentType: string): boolean {
 }
 
 /**
- * Check if content type is any supported media (image, video, audio, HLS)
+ * Check if content type is a DASH manifest (MPD)
+ */
+export function isDASHContentType(contentType: string): boolean {
+  if (!contentType) return false;
+
+  const mimeType = contentType.toLowerCase().split(';')[0].trim();
+
+  return mimeType === 'application/dash+xml';
+}
+
+/**
+ * Check if content type is a streaming manifest (HLS playlist or DASH MPD)
+ */
+export function isManifestContentType(contentType: string): boolean {
+  return isHLSContentType(contentType) || isDASHContentType(contentType);
+}
+
+/**
+ * Check if a path names a streaming manifest (.m3u8, .m3u, .mpd)
+ *
+ * For decisions made before the origin's content type is known.
+ */
+export function isManifestPath(path: string): boolean {
+  return /\.(m3u8?|mpd)$/i.test(path);
+}
+
+/**
+ * Check if content type is any supported media (image, video, audio, HLS, DASH)
  */
 export function isMediaContentType(contentType: string): boolean {
   return isImageContentType(contentType) ||
          isVideoContentType(contentType) ||
          isAudioContentType(contentType) ||
-         isHLSContentType(contentType);
+         isManifestContentType(contentType);
+}
+
+/**
+ * Content types for streaming files that origins commonly serve generically
+ */
+const STREAMING_EXTENSION_TYPES: Record<string, string> = {
+  '.m4s': 'video/iso.segment',
+  '.mpd': 'application/dash+xml',
+};
+
+/**
+ * Get the content type to validate and cache an origin response with
+ *
+ * Many origins have no MIME mapping for DASH files and send them as
+ * application/octet-stream (or nothing). For .m4s and .mpd paths only,
+ * such generic types are replaced by the proper streaming type; any
+ * specific type from the origin is kept as-is.
+ */
+export function getEffectiveContentType(contentType: string, path: string): string {
+  const mimeType = contentType.toLowerCase().split(';')[0].trim();
+  const isGeneric = mimeType === '' ||
+                    mimeType === 'application/octet-stream' ||
+                    mimeType === 'binary/octet-stream';
+  if (!isGeneric) return contentType;
+
+  const extension = path.toLowerCase().match(/\.[a-z0-9]+$/);
+  return (extension && STREAMING_EXTENSION_TYPES[extension[0]]) || contentType;
 }
 
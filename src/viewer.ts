@@ -5,6 +5,21 @@
 import type { HtmlViewerOptions } from './types';
 import { arrayBufferToBase64, formatBytes, formatTime, getCORSHeaders, VERSION } from './utils';
 
+/**
+ * Escape a value for interpolation into HTML text or attributes
+ *
+ * URLs, cache keys, content types and log details come from the request
+ * or the origin, so none of them may be interpolated raw.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 /**
  * Create HTML viewer with image preview, metadata, and delete button
  */
@@ -18,6 +33,7 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
     cdnUrl,
     cacheKey,
     cachedAt,
+    redirects,
     processingTime,
     logs,
     env
@@ -325,7 +341,7 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
             </div>
             <div class="info-row">
               <div class="info-label">Content Type</div>
-              <div class="info-value">${contentType}</div>
+              <div class="info-value">${escapeHtml(contentType)}</div>
             </div>
           </div>
 
@@ -335,13 +351,13 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
               <div class="info-label">Cache Key</div>
             </div>
             <div class="url-block">
-              <a href="${sourceUrl}" target="_blank">${cacheKey}</a>
+              <a href="${escapeHtml(sourceUrl)}" target="_blank">${escapeHtml(cacheKey)}</a>
             </div>
             <div class="info-row" style="margin-top: 16px;">
               <div class="info-label">CDN URL</div>
             </div>
             <div class="url-block">
-              <a href="${cdnUrl}" target="_blank">${cdnUrl}</a>
+              <a href="${escapeHtml(cdnUrl)}" target="_blank">${escapeHtml(cdnUrl)}</a>
             </div>
             ${cachedAt ? `
             <div class="info-row" style="margin-top: 16px;">
@@ -349,6 +365,14 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
               <div class="info-value">${new Date(cachedAt).toLocaleString()}</div>
             </div>
             ` : ''}
+            ${redirects ? `
+            <div class="info-row" style="margin-top: 16px;">
+              <div class="info-label">Origin Redirects</div>
+            </div>
+            <div class="url-block">
+              ${redirects.split(' -> ').map(hop => `<div>${escapeHtml(hop)}</div>`).join('')}
+            </div>
+            ` : ''}
           </div>
         </div>
 
@@ -359,8 +383,8 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
               ${logs.map(log => `
                 <div class="log-entry">
                   <div class="log-time">${log.time}</div>
-                  <div class="log-action">${log.action}</div>
-                  <div class="log-details">${log.details || ''}</div>
+                  <div class="log-action">${escapeHtml(log.action)}</div>
+                  <div class="log-details">${escapeHtml(log.details || '')}</div>
                 </div>
               `).join('')}
             </div>
@@ -371,7 +395,7 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
   </div>
 
   <script>
-    const deleteUrl = '${deleteUrl}';
+    const deleteUrl = ${JSON.stringify(deleteUrl).replace(/</g, '\\u003c')};
 
     async function deleteImage() {
       const btn = document.getElementById('deleteBtn');
@@ -382,6 +406,16 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
         return;
       }
 
+      // Purge requires a bearer token (admin secret or site purge token)
+      // Kept in sessionStorage so it is not re-prompted on every page
+      let token = sessionStorage.getItem('imgproPurgeToken');
+      if (!token) {
+        token = prompt('Purge token (admin secret or site token):');
+        if (!token) {
+          return;
+        }
+      }
+
       btn.disabled = true;
       btn.textContent = 'Deleting...';
       message.style.display = 'none';
@@ -389,12 +423,21 @@ export function createHtmlViewer(options: HtmlViewerOptions): Response {
       try {
         const response = await fetch(deleteUrl, {
           method: 'DELETE',
+          headers: { 'Authorization': 'Bearer ' + token },
         });
 
+        if (response.status === 401 || response.status === 403) {
+          sessionStorage.removeItem('imgproPurgeToken');
+          throw new Error('Invalid purge token');
+        }
+
         if (response.ok) {
+          sessionStorage.setItem('imgproPurgeToken', token);
           const result = await response.json();
           message.className = 'success';
-          message.textContent = 'Image deleted successfully from cache';
+          message.textContent = result.purged.length > 0
+            ? 'Image deleted successfully from cache'
+            : 'Image was not in cache';
           message.style.display = 'block';
 
           // Fade out image
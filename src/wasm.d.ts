@@ -0,0 +1,12 @@
+/**
+ * WebAssembly module imports
+ *
+ * Wrangler compiles imported "*.wasm?module" files at build time and hands
+ * them to the worker as WebAssembly.Module instances (see transform.ts).
+ * The "?module" suffix keeps TypeScript from resolving the .wasm.d.ts files
+ * that wasm-bindgen packages ship next to their binaries.
+ */
+declare module '*.wasm?module' {
+  const module: WebAssembly.Module;
+  export default module;
+}